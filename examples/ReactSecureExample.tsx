@@ -1,5 +1,6 @@
 import React, { useEffect } from 'react';
-import { useTabStateSync, TabStateSyncOptions } from '../src';
+import { TabStateSyncOptions } from '../src';
+import { useTabStateSync } from '../src/react';
 
 // Definição do tipo de dados a ser sincronizado
 interface UserSettings {
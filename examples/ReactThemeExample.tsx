@@ -1,5 +1,5 @@
 import React from 'react';
-import { useTabStateSync } from '../src';
+import { useTabStateSync } from '../src/react';
 
 export function ThemeSwitcher() {
     const [theme, setTheme] = useTabStateSync<'light' | 'dark'>('theme', 'light');
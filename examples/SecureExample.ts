@@ -1,22 +1,24 @@
 import { createTabStateSync, TabStateSyncOptions } from '../src';
 
+// Define types for user preferences
+interface UserPreferences {
+  theme: 'light' | 'dark';
+  fontSize: number;
+  notifications: boolean;
+}
+
 // Secure configuration example
-const securityOptions: TabStateSyncOptions = {
+const securityOptions: TabStateSyncOptions<UserPreferences> = {
   namespace: 'myapp', // Prevents key collisions
   enableEncryption: true, // Enables basic encryption
   encryptionKey: 'my-secret-key-12345', // Custom key (should be stronger in production)
-  debug: true // Enables error logging during development
+  debug: true, // Enables error logging during development
+  validate: validatePreferences, // Rejects malformed data before subscribers run
+  onError: (error) => console.warn('Rejected preferences from another tab:', error.message)
 };
 
 // Creates an instance with security options
-const userPrefs = createTabStateSync('user-preferences', securityOptions);
-
-// Define types for user preferences
-interface UserPreferences {
-  theme: 'light' | 'dark';
-  fontSize: number;
-  notifications: boolean;
-}
+const userPrefs = createTabStateSync<UserPreferences>('user-preferences', securityOptions);
 
 // Default value
 const defaultPrefs: UserPreferences = {
@@ -29,15 +31,11 @@ const defaultPrefs: UserPreferences = {
 let currentPrefs: UserPreferences | undefined;
 
 // Listen for changes from other tabs
+// Values reaching subscribers already passed validatePreferences
 userPrefs.subscribe((newPrefs: UserPreferences) => {
-  if (!newPrefs) return;
-  
-  // Always sanitize and validate received data
-  if (validatePreferences(newPrefs)) {
-    currentPrefs = newPrefs;
-    applyPreferences(currentPrefs);
-    console.log('Preferences updated from another tab:', currentPrefs);
-  }
+  currentPrefs = newPrefs;
+  applyPreferences(currentPrefs);
+  console.log('Preferences updated from another tab:', currentPrefs);
 });
 
 // Data validation
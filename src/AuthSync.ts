@@ -0,0 +1,336 @@
+import { TabStateSyncError } from './errors';
+import { createId } from './id';
+import { deepEqual } from './jsonPatch';
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+import {
+  createDefaultTransport,
+  PollingStorageTransport,
+  StorageEventTransport,
+  Transport,
+  TransportFactory
+} from './transports';
+
+/**
+ * Session shared by the tabs. A refresh in progress is announced with a lease,
+ * so the other tabs wait for its result instead of refreshing too.
+ */
+interface AuthState<S> {
+  session: S | null;
+  version: number;
+  refreshing: { tab: string; until: number } | null;
+}
+
+/**
+ * Configuration options for AuthSync
+ */
+export interface AuthSyncOptions<S> extends Omit<
+  TabStateSyncOptions<AuthState<S>>,
+  'persist' | 'conflictResolution' | 'validate' | 'schema' | 'version' | 'migrations'
+> {
+  /**
+   * Name of the session, tabs using the same name share it
+   * @default 'auth'
+   */
+  name?: string;
+
+  /**
+   * Gets a new session, for example by exchanging the refresh token. Runs in one tab at a time.
+   */
+  refresh?: (session: S | null) => Promise<S>;
+
+  /**
+   * Called in every tab when the session ends, whichever tab logged out
+   */
+  onLogout?: () => void;
+
+  /**
+   * Called in every tab when the session is set, refreshed or cleared
+   */
+  onSessionChange?: (session: S | null) => void;
+
+  /**
+   * How long the other tabs wait for a refresh, in milliseconds
+   * @default 10000
+   */
+  refreshTimeout?: number;
+
+  /**
+   * Serialize refreshes with the Web Locks API when the browser supports it
+   * @default true
+   */
+  useWebLocks?: boolean;
+}
+
+/**
+ * Wraps a transport so nothing is ever kept: storage transports remove each message
+ * right after writing it, and new tabs get the session from the open tabs.
+ * @param check Throws for transports the session must not go through, including fallbacks
+ */
+function withoutRetention(transport: Transport, check: (transport: Transport) => void): Transport {
+  return {
+    send: (data) => transport.send(data, { retain: false }),
+    onMessage: (handler) => transport.onMessage(handler),
+    onError: (handler) => transport.onError?.((err, fallback) => {
+      try {
+        if (fallback) check(fallback);
+      } catch {
+        // Refused, so the session stays in this tab
+        handler(err);
+        return;
+      }
+      handler(err, fallback && withoutRetention(fallback, check));
+    }),
+    close: () => transport.close()
+  };
+}
+
+/**
+ * AuthSync keeps login, logout and token refresh consistent across tabs.
+ *
+ * The session is only kept in memory and exchanged between open tabs, never kept
+ * in storage, and once every tab is closed it is gone. The localStorage transports
+ * write each message before removing it, so without `enableEncryption` they are refused:
+ * the instance reports a `TRANSPORT` error and keeps the session in this tab only.
+ */
+export class AuthSync<S> {
+  private sync: TabStateSync<AuthState<S>>;
+  private readonly tabId = createId();
+  private refreshFn: ((session: S | null) => Promise<S>) | undefined;
+  private refreshTimeout: number;
+  private lockName: string | null = null;
+  private inFlight: Promise<S> | null = null;
+  private session: S | null = null;
+  private sessionCallbacks: Set<(session: S | null) => void> = new Set();
+  private logoutCallbacks: Set<() => void> = new Set();
+  private waiters: Set<(closed: boolean) => void> = new Set();
+  private destroyed = false;
+
+  /**
+   * Creates a new AuthSync and receives the session from the open tabs
+   * @param options Configuration options, passed on to TabStateSync
+   */
+  constructor(options: AuthSyncOptions<S> = {}) {
+    const {
+      name = 'auth',
+      refresh,
+      onLogout,
+      onSessionChange,
+      refreshTimeout = 10000,
+      useWebLocks = true,
+      transport,
+      ...syncOptions
+    } = options;
+    this.refreshFn = refresh;
+    this.refreshTimeout = refreshTimeout;
+    if (onLogout) this.logoutCallbacks.add(onLogout);
+    if (onSessionChange) this.sessionCallbacks.add(onSessionChange);
+    if (useWebLocks && typeof navigator !== 'undefined' && navigator.locks) {
+      this.lockName = `tabstatesync:auth:${syncOptions.namespace ?? 'tss'}:${name}`;
+    }
+
+    // Even messages that are not retained stay in localStorage for a moment
+    const check = (created: Transport) => {
+      if (!syncOptions.enableEncryption &&
+        (created instanceof StorageEventTransport || created instanceof PollingStorageTransport)) {
+        created.close();
+        throw new TabStateSyncError('TRANSPORT', 'AuthSync sends the session over localStorage only with enableEncryption');
+      }
+    };
+    const factory: TransportFactory = (key) => {
+      const created = typeof transport === 'function' ? transport(key) : transport ?? createDefaultTransport(key, key);
+      check(created);
+      return withoutRetention(created, check);
+    };
+    this.sync = new TabStateSync<AuthState<S>>(name, { ...syncOptions, transport: factory });
+    this.sync.subscribe(this.onChange);
+  }
+
+  /**
+   * Returns the current session, or null when logged out
+   */
+  getSession(): S | null {
+    return this.state().session;
+  }
+
+  /**
+   * Returns whether a session is active
+   */
+  isAuthenticated(): boolean {
+    return this.state().session !== null;
+  }
+
+  /**
+   * Starts a session in every tab
+   */
+  login(session: S): void {
+    this.write({ session, version: this.state().version + 1, refreshing: null });
+  }
+
+  /**
+   * Ends the session in every tab. onLogout is called in each of them, including this one.
+   */
+  logout(): void {
+    this.write({ session: null, version: this.state().version + 1, refreshing: null });
+  }
+
+  /**
+   * Refreshes the session with the `refresh` option, in one tab at a time.
+   * A tab calling it while another tab refreshes waits for that result.
+   * Rejected with a TabStateSyncError coded `TIMEOUT` when the other tab takes longer
+   * than `refreshTimeout`, and `REMOTE` when its refresh failed or the session ended meanwhile.
+   * A refresh finishing after a logout or login in another tab is discarded and rejected with `REMOTE`.
+   */
+  refresh(): Promise<S> {
+    const refreshFn = this.refreshFn;
+    if (!refreshFn) {
+      return Promise.reject(new Error('AuthSync: the refresh option is required to refresh the session'));
+    }
+    if (!this.inFlight) {
+      const version = this.state().version;
+      const run = this.lockName ? this.refreshWithLock(version, refreshFn) : this.refreshWithLease(version, refreshFn);
+      const clear = () => { this.inFlight = null; };
+      this.inFlight = run;
+      run.then(clear, clear);
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Registers a callback called when the session is set, refreshed or cleared, in this tab or another one
+   * @returns Function removing the callback
+   */
+  onSessionChange(callback: (session: S | null) => void): () => void {
+    this.sessionCallbacks.add(callback);
+    return () => { this.sessionCallbacks.delete(callback); };
+  }
+
+  /**
+   * Registers a callback called when the session ends, in this tab or another one
+   * @returns Function removing the callback
+   */
+  onLogout(callback: () => void): () => void {
+    this.logoutCallbacks.add(callback);
+    return () => { this.logoutCallbacks.delete(callback); };
+  }
+
+  /**
+   * Stops syncing. Calls waiting for another tab's refresh are rejected.
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.waiters.forEach((wake) => wake(true));
+    this.sync.destroy();
+    this.sessionCallbacks.clear();
+    this.logoutCallbacks.clear();
+  }
+
+  private state(): AuthState<S> {
+    return this.sync.get() ?? { session: null, version: 0, refreshing: null };
+  }
+
+  private write(state: AuthState<S>): void {
+    if (this.destroyed) return;
+    this.sync.set(state);
+  }
+
+  /**
+   * With Web Locks, tabs refresh one after the other. A tab getting the lock after
+   * another tab refreshed uses that session instead of refreshing again, and waits for it
+   * when the lock was released before the new session reached this tab.
+   */
+  private refreshWithLock(version: number, refreshFn: (session: S | null) => Promise<S>): Promise<S> {
+    // request() resolves with the result of the promise returned by the callback
+    return navigator.locks.request(this.lockName!, () => {
+      const state = this.state();
+      if (state.version !== version) return this.settled(state);
+      return this.refreshWithLease(version, refreshFn);
+    }) as unknown as Promise<S>;
+  }
+
+  /**
+   * The refreshing tab announces a lease in the shared state, so the other tabs wait for its result.
+   * Without Web Locks, tabs refreshing within the same few milliseconds may still both run the refresh.
+   */
+  private refreshWithLease(version: number, refreshFn: (session: S | null) => Promise<S>): Promise<S> {
+    const state = this.state();
+    const lease = state.refreshing;
+    if (lease && lease.tab !== this.tabId && lease.until > Date.now()) {
+      return this.waitForRefresh(version, lease.until);
+    }
+    this.write({ ...state, refreshing: { tab: this.tabId, until: Date.now() + this.refreshTimeout } });
+    return this.runRefresh(refreshFn).catch((err) => {
+      // Let the waiting tabs know the refresh failed
+      const current = this.state();
+      if (current.refreshing?.tab === this.tabId) {
+        this.write({ ...current, refreshing: null });
+      }
+      throw err;
+    });
+  }
+
+  private runRefresh(refreshFn: (session: S | null) => Promise<S>): Promise<S> {
+    const { session, version } = this.state();
+    return refreshFn(session).then((refreshed) => {
+      // A logout or login in another tab while refreshing must not be undone
+      const current = this.state();
+      if (current.version !== version || current.session === null) {
+        throw new TabStateSyncError('REMOTE', 'The session changed in another tab during the refresh');
+      }
+      this.write({ session: refreshed, version: version + 1, refreshing: null });
+      return refreshed;
+    });
+  }
+
+  /**
+   * Resolves with the session once another tab finished refreshing
+   */
+  private waitForRefresh(version: number, until: number): Promise<S> {
+    return new Promise<S>((resolve, reject) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.waiters.delete(wake);
+      };
+      const wake = (closed: boolean) => {
+        const state = this.state();
+        if (closed) {
+          done();
+          reject(new TabStateSyncError('CLOSED', 'AuthSync was destroyed before the refresh finished'));
+        } else if (state.version !== version) {
+          done();
+          this.settled(state).then(resolve, reject);
+        } else if (!state.refreshing) {
+          done();
+          reject(new TabStateSyncError('REMOTE', 'The refresh failed in another tab'));
+        }
+      };
+      const timer = setTimeout(() => {
+        done();
+        reject(new TabStateSyncError('TIMEOUT', 'Another tab did not finish refreshing in time'));
+      }, until - Date.now());
+      this.waiters.add(wake);
+    });
+  }
+
+  /**
+   * The session written by another tab while this one was waiting
+   */
+  private settled(state: AuthState<S>): Promise<S> {
+    return state.session !== null
+      ? Promise.resolve(state.session)
+      : Promise.reject(new TabStateSyncError('REMOTE', 'The session ended in another tab'));
+  }
+
+  private onChange = (state: AuthState<S>) => {
+    // Concurrent logins from two tabs share a version, so the session itself is compared
+    const previous = this.session;
+    if (!deepEqual(state.session, previous)) {
+      this.session = state.session;
+      this.sessionCallbacks.forEach((cb) => cb(state.session));
+      if (previous !== null && state.session === null) {
+        this.logoutCallbacks.forEach((cb) => cb());
+      }
+    }
+    this.waiters.forEach((wake) => wake(false));
+  };
+}
@@ -0,0 +1,150 @@
+import { createId } from './id';
+import { createDefaultTransport, Transport, TransportFactory } from './transports';
+
+/**
+ * Handles events of one type
+ * @param payload Payload passed to emit()
+ * @param from ID of the emitting tab
+ */
+export type EventHandler<P = unknown> = (payload: P, from: string) => void;
+
+/**
+ * Configuration options for TabEventBus
+ */
+export interface TabEventBusOptions {
+  /**
+   * Namespace prefix for the channel, like the TabStateSync option
+   * @default 'tss'
+   */
+  namespace?: string;
+
+  /**
+   * Custom transport, or a factory receiving the namespaced key.
+   * The transport is owned by the instance and closed by destroy().
+   * @default BroadcastChannel, or localStorage when it is not available
+   */
+  transport?: Transport | TransportFactory;
+
+  /**
+   * Also deliver events to the handlers of the emitting tab, synchronously
+   * @default false
+   */
+  echo?: boolean;
+
+  /**
+   * Enable debug logging of errors
+   * @default false
+   */
+  debug?: boolean;
+}
+
+interface EventMessage {
+  type: string;
+  payload?: unknown;
+  from: string;
+}
+
+/**
+ * TabEventBus sends one-off events between tabs, such as "user logged out" or "show a toast".
+ * Unlike TabStateSync, events are not state: nothing is kept as a current value or persisted,
+ * tabs opened later do not receive earlier events, and on the localStorage fallback the
+ * key written for an event is removed right away.
+ *
+ * @typeParam E Map of event types to their payload
+ */
+export class TabEventBus<E extends Record<string, unknown> = Record<string, unknown>> {
+  private transport: Transport;
+  private readonly id = createId();
+  private handlers: Map<string, Set<EventHandler<any>>> = new Map();
+  private echo: boolean;
+  private debug: boolean;
+  private destroyed = false;
+
+  /**
+   * Creates a new TabEventBus and starts receiving events
+   * @param name Name of the channel, tabs using the same name receive each other's events
+   * @param options Configuration options
+   */
+  constructor(name = 'events', options: TabEventBusOptions = {}) {
+    const key = `${options.namespace ?? 'tss'}:${name}#events`;
+    this.echo = options.echo ?? false;
+    this.debug = options.debug ?? false;
+    if (typeof options.transport === 'function') {
+      this.transport = options.transport(key);
+    } else {
+      this.transport = options.transport ?? createDefaultTransport(key, key);
+    }
+    this.transport.onMessage(this.onMessage);
+  }
+
+  /**
+   * Returns the ID passed to handlers as `from` for events emitted by this tab
+   */
+  getId(): string {
+    return this.id;
+  }
+
+  /**
+   * Sends an event to the other tabs, and to this tab with the `echo` option
+   * @param type Event type
+   * @param payload Payload, must be serializable to JSON
+   */
+  emit<K extends keyof E & string>(type: K, payload: E[K]): void {
+    if (this.destroyed) return;
+    const message: EventMessage = { type, payload, from: this.id };
+    // Never retained, so storage transports do not keep the event
+    this.transport.send(JSON.stringify(message), { retain: false });
+    if (this.echo) {
+      this.dispatch(message);
+    }
+  }
+
+  /**
+   * Registers a handler for an event type
+   * @returns Function removing the handler
+   */
+  on<K extends keyof E & string>(type: K, handler: EventHandler<E[K]>): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler);
+    return () => { handlers!.delete(handler); };
+  }
+
+  /**
+   * Removes every handler and closes the transport
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.handlers.clear();
+    this.transport.close();
+  }
+
+  private dispatch(message: EventMessage): void {
+    this.handlers.get(message.type)?.forEach((handler) => handler(message.payload, message.from));
+  }
+
+  private onMessage = (data: unknown) => {
+    let message: EventMessage;
+    try {
+      message = typeof data === 'string' ? JSON.parse(data) : data;
+    } catch (err) {
+      this.logError('Invalid event:', err);
+      return;
+    }
+    if (!message || typeof message.type !== 'string' || typeof message.from !== 'string') {
+      this.logError('Invalid event:', message);
+      return;
+    }
+    this.dispatch(message);
+  };
+
+  private logError(message: string, data?: unknown): void {
+    if (this.debug) {
+      console.error(`[TabEventBus] ${message}`, data);
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { createId } from './id';
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+
+type Callback = () => void;
+
+/**
+ * Lease published by the leader tab
+ */
+interface LeaderState {
+  id: string;
+  expires: number;
+}
+
+/**
+ * Configuration options for TabLeader
+ */
+export interface TabLeaderOptions extends Omit<TabStateSyncOptions<LeaderState | null>, 'conflictResolution' | 'validate' | 'schema' | 'version' | 'migrations'> {
+  /**
+   * How often the leader renews its lease, in milliseconds
+   * @default 1000
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * How long a lease is valid without renewal, in milliseconds.
+   * After this time a frozen or crashed leader is replaced.
+   * @default 3000
+   */
+  leaderTimeout?: number;
+
+  /**
+   * Elect the leader with the Web Locks API when the browser supports it
+   * @default true
+   */
+  useWebLocks?: boolean;
+}
+
+/**
+ * TabLeader elects a single leader among the tabs sharing a name, for example
+ * so that only one tab polls the server or holds a WebSocket.
+ *
+ * With the Web Locks API, the tab holding the lock is the leader and the browser
+ * releases the lock when the tab closes. Without it, tabs compete for a lease
+ * synchronized with TabStateSync that the leader renews with heartbeats.
+ */
+export class TabLeader {
+  private sync: TabStateSync<LeaderState | null>;
+  private readonly id = createId();
+  private leader = false;
+  private destroyed = false;
+  private becomeCallbacks: Set<Callback> = new Set();
+  private loseCallbacks: Set<Callback> = new Set();
+  private intervalId: ReturnType<typeof setInterval>;
+  private leaderTimeout: number;
+  private usesLocks: boolean;
+  private lockAbort: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+
+  /**
+   * Creates a new TabLeader and starts taking part in the election
+   * @param name Name of the election, tabs using the same name elect one leader
+   * @param options Configuration options
+   */
+  constructor(name: string, options: TabLeaderOptions = {}) {
+    const { heartbeatInterval = 1000, leaderTimeout = 3000, useWebLocks = true, ...syncOptions } = options;
+    this.leaderTimeout = leaderTimeout;
+
+    // Concurrent claims converge on the same winner in every tab
+    this.sync = new TabStateSync<LeaderState | null>(`${name}:leader`, { ...syncOptions, conflictResolution: 'last-writer-wins' });
+    this.sync.subscribe(this.onLeaseChange);
+
+    this.usesLocks = useWebLocks && typeof navigator !== 'undefined' && !!navigator.locks;
+    if (this.usesLocks) {
+      this.requestLock(`tabstatesync:leader:${syncOptions.namespace ?? 'tss'}:${name}`);
+    }
+    this.intervalId = setInterval(() => this.tick(), heartbeatInterval);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.onPageHide);
+    }
+  }
+
+  /**
+   * Returns true if this tab is currently the leader
+   */
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Returns the ID of the current leader, or null if there is none
+   */
+  getLeaderId(): string | null {
+    const lease = this.sync.get();
+    return lease && lease.expires > Date.now() ? lease.id : null;
+  }
+
+  /**
+   * Returns the ID this tab uses in the election
+   */
+  getId(): string {
+    return this.id;
+  }
+
+  /**
+   * Registers a callback called when this tab becomes the leader.
+   * Called immediately if this tab already is the leader.
+   * @returns Function removing the callback
+   */
+  onBecomeLeader(callback: Callback): () => void {
+    this.becomeCallbacks.add(callback);
+    if (this.leader) callback();
+    return () => { this.becomeCallbacks.delete(callback); };
+  }
+
+  /**
+   * Registers a callback called when this tab stops being the leader,
+   * because another tab took over or this instance was destroyed.
+   * @returns Function removing the callback
+   */
+  onLoseLeader(callback: Callback): () => void {
+    this.loseCallbacks.add(callback);
+    return () => { this.loseCallbacks.delete(callback); };
+  }
+
+  /**
+   * Leaves the election. If this tab is the leader, the lease is released so another tab takes over.
+   */
+  destroy() {
+    if (this.destroyed) return;
+    if (this.leader) {
+      this.sync.set(null);
+      this.setLeader(false);
+    }
+    this.destroyed = true;
+    clearInterval(this.intervalId);
+    this.lockAbort?.abort();
+    this.releaseLock?.();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.onPageHide);
+    }
+    this.sync.destroy();
+    this.becomeCallbacks.clear();
+    this.loseCallbacks.clear();
+  }
+
+  private requestLock(lockName: string) {
+    this.lockAbort = new AbortController();
+    navigator.locks
+      .request(lockName, { signal: this.lockAbort.signal }, () => {
+        if (this.destroyed) return;
+        this.publishLease();
+        this.setLeader(true);
+        // Hold the lock until destroy() or until the tab is closed
+        return new Promise<void>((resolve) => { this.releaseLock = resolve; });
+      })
+      .catch(() => {
+        // Aborted by destroy()
+      });
+  }
+
+  /**
+   * Heartbeat: renews the lease as leader, or claims an expired lease.
+   * Without Web Locks a claim only wins once every tab has converged on it,
+   * so leadership is confirmed on the following heartbeat.
+   */
+  private tick() {
+    if (this.destroyed) return;
+    const lease = this.sync.get();
+    const now = Date.now();
+
+    if (this.usesLocks) {
+      if (this.leader) this.publishLease();
+      return;
+    }
+
+    if (lease && lease.id === this.id && lease.expires > now) {
+      // Renew as leader, or take over once the claim has been confirmed
+      this.publishLease();
+      this.setLeader(true);
+      return;
+    }
+    // Another tab took over, or this tab was frozen for longer than its lease
+    this.setLeader(false);
+    if (!lease || lease.expires <= now) {
+      this.publishLease();
+    }
+  }
+
+  private publishLease() {
+    this.sync.set({ id: this.id, expires: Date.now() + this.leaderTimeout });
+  }
+
+  private setLeader(leader: boolean) {
+    if (this.leader === leader) return;
+    this.leader = leader;
+    (leader ? this.becomeCallbacks : this.loseCallbacks).forEach((cb) => cb());
+  }
+
+  private onLeaseChange = (lease: LeaderState | null) => {
+    if (this.leader && !this.usesLocks && (!lease || lease.id !== this.id)) {
+      this.setLeader(false);
+    }
+  };
+
+  /**
+   * Releases the lease when the page is closed or enters the back/forward cache.
+   * The heartbeat competes again if the page is restored.
+   */
+  private onPageHide = () => {
+    if (this.leader && !this.usesLocks) {
+      this.sync.set(null);
+      this.setLeader(false);
+    }
+  };
+}
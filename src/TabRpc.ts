@@ -0,0 +1,244 @@
+import { TabStateSyncError } from './errors';
+import { createId } from './id';
+import { createDefaultTransport, Transport, TransportFactory } from './transports';
+
+/**
+ * Handles calls of a method made by other tabs
+ * @param args Arguments passed to call()
+ * @param from ID of the calling tab
+ */
+export type RpcHandler<A = any, R = unknown> = (args: A, from: string) => R | Promise<R>;
+
+/**
+ * Configuration options for TabRpc
+ */
+export interface TabRpcOptions {
+  /**
+   * Namespace prefix for the channel, like the TabStateSync option
+   * @default 'tss'
+   */
+  namespace?: string;
+
+  /**
+   * ID of this tab, targeted by call(). Pass the ID of a TabLeader or TabStateSync to use the same one.
+   * @default a random ID
+   */
+  id?: string;
+
+  /**
+   * Custom transport, or a factory receiving the namespaced key.
+   * The transport is owned by the instance and closed by destroy().
+   * @default BroadcastChannel, or localStorage when it is not available
+   */
+  transport?: Transport | TransportFactory;
+
+  /**
+   * Default time to wait for a reply, in milliseconds
+   * @default 5000
+   */
+  timeout?: number;
+
+  /**
+   * Enable debug logging of errors
+   * @default false
+   */
+  debug?: boolean;
+}
+
+/**
+ * Options for TabRpc.call
+ */
+export interface RpcCallOptions {
+  /**
+   * ID of the tab that must answer. Without it, every other tab with a handler runs it
+   * and the first reply is used.
+   */
+  target?: string;
+
+  /**
+   * Time to wait for a reply, in milliseconds
+   */
+  timeout?: number;
+}
+
+/**
+ * Messages exchanged by TabRpc:
+ * - `call`: asks the target tab, or every tab, to run a method
+ * - `result` / `error`: the reply of a handler, addressed to the calling tab
+ */
+type RpcMessage =
+  | { kind: 'call'; id: string; from: string; method: string; args: unknown; target?: string }
+  | { kind: 'result'; id: string; to: string; value: unknown }
+  | { kind: 'error'; id: string; to: string; error: { name: string; message: string } };
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: TabStateSyncError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * TabRpc lets a tab ask other tabs to run a function and await the result,
+ * for example "leader, refresh the token". Calls and replies travel over the same
+ * transports as TabStateSync, as JSON, and are correlated by ID.
+ *
+ * A call never reaches the calling tab. It is rejected with a TabStateSyncError
+ * whose code is `TIMEOUT` when no tab answers in time, `REMOTE` when the handler
+ * threw, and `CLOSED` when the instance is destroyed first.
+ */
+export class TabRpc {
+  private transport: Transport;
+  private readonly id: string;
+  private handlers: Map<string, RpcHandler> = new Map();
+  private pending: Map<string, PendingCall> = new Map();
+  private timeout: number;
+  private debug: boolean;
+  private destroyed = false;
+
+  /**
+   * Creates a new TabRpc and starts answering calls
+   * @param name Name of the channel, tabs using the same name call each other
+   * @param options Configuration options
+   */
+  constructor(name: string, options: TabRpcOptions = {}) {
+    const key = `${options.namespace ?? 'tss'}:${name}#rpc`;
+    this.id = options.id ?? createId();
+    this.timeout = options.timeout ?? 5000;
+    this.debug = options.debug ?? false;
+    if (typeof options.transport === 'function') {
+      this.transport = options.transport(key);
+    } else {
+      this.transport = options.transport ?? createDefaultTransport(key, key);
+    }
+    this.transport.onMessage(this.onMessage);
+  }
+
+  /**
+   * Returns the ID other tabs pass as `target` to call this tab
+   */
+  getId(): string {
+    return this.id;
+  }
+
+  /**
+   * Registers the handler of a method, replacing any previous one.
+   * @returns Function removing the handler
+   */
+  register<A = any, R = unknown>(method: string, handler: RpcHandler<A, R>): () => void {
+    this.handlers.set(method, handler);
+    return () => {
+      if (this.handlers.get(method) === handler) this.handlers.delete(method);
+    };
+  }
+
+  /**
+   * Runs a method in another tab and resolves with its result.
+   * @param method Name of the method
+   * @param args Arguments passed to the handler, must be serializable to JSON
+   * @param options Target tab and timeout
+   */
+  call<R = unknown>(method: string, args?: unknown, options: RpcCallOptions = {}): Promise<R> {
+    if (this.destroyed) {
+      return Promise.reject(new TabStateSyncError('CLOSED', 'TabRpc was destroyed'));
+    }
+    const id = createId();
+    const timeout = options.timeout ?? this.timeout;
+    return new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new TabStateSyncError('TIMEOUT', `No tab answered ${method} within ${timeout} ms`));
+      }, timeout);
+      this.pending.set(id, { resolve, reject, timer });
+      try {
+        this.send({ kind: 'call', id, from: this.id, method, args, target: options.target });
+      } catch (err) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(new TabStateSyncError('TRANSPORT', `${method} could not be sent`, err));
+      }
+    });
+  }
+
+  /**
+   * Stops answering calls, rejects pending ones and closes the transport
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new TabStateSyncError('CLOSED', 'TabRpc was destroyed before a reply'));
+    });
+    this.pending.clear();
+    this.handlers.clear();
+    this.transport.close();
+  }
+
+  private send(message: RpcMessage): void {
+    this.transport.send(JSON.stringify(message));
+  }
+
+  private onMessage = (data: unknown) => {
+    let message: RpcMessage;
+    try {
+      message = typeof data === 'string' ? JSON.parse(data) : data;
+    } catch (err) {
+      this.logError('Invalid message:', err);
+      return;
+    }
+    if (!message || typeof message !== 'object' || typeof message.id !== 'string') return;
+
+    if (message.kind === 'call') {
+      this.answer(message);
+    } else if ((message.kind === 'result' || message.kind === 'error') && message.to === this.id) {
+      const call = this.pending.get(message.id);
+      // Already answered by another tab, or timed out
+      if (!call) return;
+      this.pending.delete(message.id);
+      clearTimeout(call.timer);
+      if (message.kind === 'result') {
+        call.resolve(message.value);
+      } else {
+        call.reject(new TabStateSyncError('REMOTE', message.error.message, message.error));
+      }
+    }
+  };
+
+  private answer(message: Extract<RpcMessage, { kind: 'call' }>): void {
+    if (message.target !== undefined && message.target !== this.id) return;
+    const handler = this.handlers.get(message.method);
+    if (!handler) {
+      // Without a target, tabs lacking the method stay silent so another tab can answer
+      if (message.target !== undefined) {
+        this.replyError(message, new Error(`No handler for ${message.method}`));
+      }
+      return;
+    }
+    Promise.resolve()
+      .then(() => handler(message.args, message.from))
+      .then(
+        (value) => this.reply(message, { kind: 'result', id: message.id, to: message.from, value }),
+        (err) => this.replyError(message, err)
+      );
+  }
+
+  private replyError(call: Extract<RpcMessage, { kind: 'call' }>, err: unknown): void {
+    const { name = 'Error', message = String(err) } = err instanceof Error ? err : {};
+    this.reply(call, { kind: 'error', id: call.id, to: call.from, error: { name, message } });
+  }
+
+  private reply(call: Extract<RpcMessage, { kind: 'call' }>, message: RpcMessage): void {
+    if (this.destroyed) return;
+    try {
+      this.send(message);
+    } catch (err) {
+      this.logError(`Reply to ${call.method} could not be sent:`, err);
+    }
+  }
+
+  private logError(message: string, data?: unknown): void {
+    if (this.debug) {
+      console.error(`[TabRpc] ${message}`, data);
+    }
+  }
+}
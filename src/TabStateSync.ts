@@ -1,139 +1,479 @@
+import { compress, CompressionOptions, decompress, isCompressed } from './compression';
+import { Cipher, createAesGcmCipher, decryptLegacyXor, isAesGcmPayload } from './crypto';
+import { isQuotaError, TabStateSyncError, TabStateSyncErrorCode } from './errors';
+import { createId } from './id';
+import { applyPatch, createPatch, JsonPatchOperation } from './jsonPatch';
+import { createPersistenceStore, PersistenceStore, PersistMode, PersistOptions } from './persistence';
+import { PeerInfo, PresenceMessage, PresenceOptions, TabPresence } from './presence';
+import { withLock } from './lock';
+import { jsonSerializer, Serializer } from './serializers';
+import { StandardSchemaResult, StandardSchemaV1 } from './standardSchema';
+import {
+  createDefaultTransport,
+  IndexedDbTransport,
+  MemoryTransport,
+  PollingStorageTransport,
+  StorageEventTransport,
+  Transport,
+  TransportFactory
+} from './transports';
+
 type Callback<T> = (value: T) => void;
 
+type MessageHandler<T> = (message: SyncMessage<T>) => void | Promise<void>;
+
+/**
+ * Computes the next value from the current one
+ */
+export type Updater<T> = (current: T | undefined) => T;
+
+/**
+ * Options of an update applied while holding the cross-tab lock of the key
+ */
+export interface UpdateOptions {
+  /**
+   * Run the updater while no other tab runs a locked update of the same key
+   */
+  lock: true;
+
+  /**
+   * Time to wait for the lock, in milliseconds. Waiting longer rejects with a
+   * TabStateSyncError coded `TIMEOUT`.
+   * @default no limit
+   */
+  timeout?: number;
+}
+
+/**
+ * Writes a resuming tab missed, found when it resynced.
+ * Every write increments the Lamport clock of the key, which serves as its sequence number;
+ * concurrent writes from different tabs may share one, so `to - from` is a lower bound.
+ */
+export interface SyncGap {
+  /** Clock of the last write this tab had seen */
+  from: number;
+  /** Clock of the value it resynced to */
+  to: number;
+  /** Where the value came from: the transport or persist store, or another tab */
+  source: 'storage' | 'peer';
+}
+
+/**
+ * Options for resyncing tabs that were frozen, restored from the back/forward cache or hidden
+ */
+export interface ResyncOptions {
+  /**
+   * Called when the resync finds writes this tab missed while it was not running
+   */
+  onGap?: (gap: SyncGap) => void;
+}
+
+/**
+ * Merges a local value with a concurrent remote value.
+ * Every tab runs it with its own value as `local`, so it should give the same
+ * result for (a, b) and (b, a) for all tabs to converge.
+ */
+export type ConflictResolver<T> = (local: T, remote: T) => T;
+
+/**
+ * How to resolve concurrent writes from different tabs:
+ * - `last-writer-wins`: the write with the highest logical clock wins
+ * - `first-writer-wins`: among writes with the same logical clock, the earliest one wins
+ * - a custom function merging both values
+ */
+export type ConflictResolution<T> = 'last-writer-wins' | 'first-writer-wins' | ConflictResolver<T>;
+
+/**
+ * Upgrades a value written with the previous version, keyed by the version it produces
+ */
+export type Migrations = Record<number, (value: any) => unknown>;
+
 /**
  * Configuration options for TabStateSync
  */
-export interface TabStateSyncOptions {
+export interface TabStateSyncOptions<T = any> {
   /**
    * Namespace prefix for localStorage keys to prevent collisions
    * @default 'tss'
    */
   namespace?: string;
-  
+
   /**
-   * Enable simple encryption for localStorage storage
-   * Note: This is not secure for highly sensitive data
+   * Enable AES-GCM encryption (WebCrypto) of localStorage data and BroadcastChannel messages.
+   * Requires a secure context (HTTPS or localhost).
+   * Data written with the XOR cipher of previous versions is migrated when read.
    * @default false
    */
   enableEncryption?: boolean;
-  
+
   /**
-   * Secret key for encryption (use a random string)
+   * Secret used for encryption: a passphrase (derived with PBKDF2) or an AES-GCM CryptoKey.
+   * Every tab must use the same secret.
    * Only used if enableEncryption is true
    * @default 'change-this-key'
    */
-  encryptionKey?: string;
-  
+  encryptionKey?: string | CryptoKey;
+
   /**
    * Enable debug logging of errors
    * @default false
    */
   debug?: boolean;
+
+  /**
+   * Custom transport, or a factory receiving the namespaced key.
+   * The transport is owned by the instance and closed by destroy().
+   * @default BroadcastChannel, or localStorage when it is not available
+   */
+  transport?: Transport | TransportFactory;
+
+  /**
+   * Policy for concurrent writes from different tabs
+   * @default 'last-writer-wins'
+   */
+  conflictResolution?: ConflictResolution<T>;
+
+  /**
+   * Track the other tabs listening on this key, see getPeers()
+   * @default false
+   */
+  presence?: boolean | PresenceOptions;
+
+  /**
+   * Type guard checking values received from other tabs or read from storage.
+   * Values it rejects are dropped before subscribers run and reported to onError.
+   */
+  validate?: (value: unknown) => value is T;
+
+  /**
+   * Standard Schema validator (zod, valibot, ...) checking values received from other tabs
+   * or read from storage. Subscribers receive the schema's output value.
+   */
+  schema?: StandardSchemaV1<unknown, T>;
+
+  /**
+   * Called when data received from another tab or read from storage is rejected, or when
+   * the transport fails (for example because the storage quota is exceeded).
+   * The error's `code` tells what went wrong.
+   */
+  onError?: (error: TabStateSyncError) => void;
+
+  /**
+   * Version of the shape of the value, sent with every message.
+   * Increase it when the shape changes and add a migration.
+   * @default 1
+   */
+  version?: number;
+
+  /**
+   * Functions upgrading values written with older versions when they are read.
+   * The function keyed `n` converts a value of version `n - 1` to version `n`;
+   * versions without a function are passed through unchanged.
+   * @default {}
+   */
+  migrations?: Migrations;
+
+  /**
+   * Called when another tab or the stored data uses a newer version than this tab,
+   * for example to ask the user to reload an outdated tab. The data is ignored.
+   * Without this callback the data is reported to onError.
+   */
+  onVersionMismatch?: (remoteVersion: number, localVersion: number) => void;
+
+  /**
+   * Turns messages into strings for every transport, so all tabs receive the same types.
+   * Use richSerializer for Date, Map, Set, BigInt, undefined and typed arrays.
+   * Every tab must use the same serializer.
+   * @default jsonSerializer
+   */
+  serializer?: Serializer;
+
+  /**
+   * Compress large payloads written to transports that store data, such as localStorage,
+   * with CompressionStream or a pure TypeScript LZW fallback.
+   * Tabs always decode compressed payloads, whether or not they compress their own.
+   * @default false
+   */
+  compression?: boolean | CompressionOptions;
+
+  /**
+   * Keep the last value across reloads, even when every tab was closed.
+   * Pass an object to drop values older than `ttl` milliseconds when they are read.
+   * @default 'none'
+   */
+  persist?: PersistMode | PersistOptions;
+
+  /**
+   * Catch up when the page resumes after being frozen, restored from the back/forward cache
+   * or shown again: the value stored by the transport or the persist option is read again,
+   * or the other tabs are asked for theirs. Writes missed meanwhile are reported to `onGap`.
+   * @default false
+   */
+  resync?: boolean | ResyncOptions;
 }
 
+/**
+ * Message types exchanged between tabs.
+ * - `value`: a new value was set
+ * - `hydrate-request`: a new tab asks existing tabs for their current value
+ * - `hydrate-response`: an existing tab answers a hydrate request
+ * - `patch`: a JSON Patch against the value identified by `base`
+ * - `presence`: a tab joined, is alive or left
+ */
+type MessageType = 'value' | 'hydrate-request' | 'hydrate-response' | 'patch' | 'presence';
+
+const MESSAGE_TYPES: MessageType[] = ['value', 'hydrate-request', 'hydrate-response', 'patch', 'presence'];
+
 /**
  * Simple data validator for cross-tab messages
  */
 interface SyncMessage<T> {
-  value: T;
+  type?: MessageType; // Missing in data written by older versions, treated as 'value'
+  value?: T;
+  ts: number;
+  v: number; // Version of the shape of the value, see the version option
+  clock?: number; // Lamport clock of the value, missing in data written by older versions
+  tab?: string; // ID of the tab that wrote the value
+  ops?: JsonPatchOperation[]; // Only in patch messages
+  base?: { clock: number; tab: string }; // Version the patch applies to, only in patch messages
+  presence?: PresenceMessage; // Only in presence messages
+}
+
+/**
+ * Identifies a write: its Lamport clock, the writing tab and its wall-clock time
+ */
+interface Stamp {
+  clock: number;
+  tab: string;
   ts: number;
-  v: number; // Schema version
 }
 
 /**
  * TabStateSync synchronizes state across browser tabs using BroadcastChannel or localStorage.
  * On Safari, a polling fallback is used for localStorage due to unreliable storage events.
+ * Any other mechanism can be plugged in through the `transport` option.
  */
 export class TabStateSync<T = any> {
   private key: string;
-  private channel: BroadcastChannel | null = null;
+  private name: string;
+  private transportFactory: TransportFactory | undefined;
+  private transport: Transport;
   private callbacks: Set<Callback<T>> = new Set();
   private lastValue: T | undefined;
-  private isBroadcastChannel: boolean;
-  private isSetting: boolean = false;
+  private hasValue = false;
   private destroyed = false;
-  private pollingInterval: number | null = null;
-  private lastPolledValue: string | null = null;
-  private options: Required<TabStateSyncOptions>;
-  private static readonly SCHEMA_VERSION = 1;
-
-  private isSafari(): boolean {
-    // Basic Safari detection (desktop and iOS)
-    return (
-      typeof navigator !== 'undefined' &&
-      /safari/i.test(navigator.userAgent) &&
-      !/chrome|android/i.test(navigator.userAgent)
-    );
-  }
+  private stamp: Stamp | null = null;
+  private clock = 0;
+  private readonly tabId = createId();
+  private presence: TabPresence | null = null;
+  private options: Required<Omit<TabStateSyncOptions<T>, 'transport' | 'presence' | 'validate' | 'schema' | 'onError' | 'onVersionMismatch' | 'compression' | 'persist' | 'resync'>>;
+  private guard: ((value: unknown) => value is T) | undefined;
+  private schema: StandardSchemaV1<unknown, T> | undefined;
+  private onError: ((error: TabStateSyncError) => void) | undefined;
+  private onVersionMismatch: ((remoteVersion: number, localVersion: number) => void) | undefined;
+  private compressionThreshold: number | null = null;
+  private persistence: PersistenceStore | null = null;
+  private ttl: number | null = null;
+  private cipher: Cipher | null = null;
+  private pending: Promise<void> | null = null;
+  private lastResyncRequest = 0;
+  private onGap: ((gap: SyncGap) => void) | undefined;
+  private resyncUntil = 0; // End of the resync in progress, gaps are only looked for in its replies
+  private static readonly RESYNC_INTERVAL = 1000;
 
   /**
    * Creates a new instance of TabStateSync
    * @param key Unique key/channel for the sync
    * @param options Configuration options
    */
-  constructor(key: string, options: TabStateSyncOptions = {}) {
+  constructor(key: string, options: TabStateSyncOptions<T> = {}) {
     // Set default options
     this.options = {
       namespace: options.namespace ?? 'tss',
       enableEncryption: options.enableEncryption ?? false,
       encryptionKey: options.encryptionKey ?? 'change-this-key',
-      debug: options.debug ?? false
+      debug: options.debug ?? false,
+      conflictResolution: options.conflictResolution ?? 'last-writer-wins',
+      version: options.version ?? 1,
+      migrations: options.migrations ?? {},
+      serializer: options.serializer ?? jsonSerializer
     };
+    this.guard = options.validate;
+    this.schema = options.schema;
+    this.onError = options.onError;
+    this.onVersionMismatch = options.onVersionMismatch;
+    if (options.compression) {
+      this.compressionThreshold = (options.compression === true ? undefined : options.compression.threshold) ?? 1024;
+    }
+    if (typeof options.persist === 'object') {
+      // Also applies to values stored by the transport, read below
+      this.ttl = options.persist.ttl ?? null;
+    }
 
     // Apply namespace to key for localStorage
+    this.name = key;
     this.key = `${this.options.namespace}:${key}`;
-    
-    this.isBroadcastChannel = typeof window !== 'undefined' && 'BroadcastChannel' in window;
-    if (this.isBroadcastChannel) {
-      // BroadcastChannel doesn't need namespace prefix
-      this.channel = new BroadcastChannel(key);
-      this.channel.onmessage = (event) => {
-        if (this.isSetting) return;
-        
-        if (!this.isValidMessage(event.data)) {
-          this.logError('Invalid message format received:', event.data);
-          return;
-        }
-        
-        this.notify(event.data);
-      };
-    } else if (this.isSafari()) {
-      // Safari fallback: use polling because storage event is unreliable
-      this.lastPolledValue = localStorage.getItem(this.key); // Initialize with current value
-      this.pollingInterval = window.setInterval(() => {
-        const raw = localStorage.getItem(this.key);
-        if (raw && raw !== this.lastPolledValue) {
-          this.lastPolledValue = raw;
-          try {
-            const decryptedData = this.options.enableEncryption 
-              ? this.decrypt(raw) 
-              : raw;
-              
-            const parsed = JSON.parse(decryptedData);
-            
-            if (!this.isValidSyncMessage(parsed)) {
-              this.logError('Invalid data format in localStorage:', parsed);
-              return;
-            }
-            
-            this.notify(parsed.value);
-          } catch (err) {
-            this.logError('Error parsing localStorage data:', err);
-          }
+
+    let encryptionUnavailable = false;
+    if (this.options.enableEncryption) {
+      try {
+        // The salt must be the same in every tab, so it is derived from the namespace
+        this.cipher = createAesGcmCipher(this.options.encryptionKey, `tabstatesync:${this.options.namespace}`);
+      } catch (err) {
+        // Without WebCrypto nothing leaves this page, rather than being sent in plaintext
+        encryptionUnavailable = true;
+        this.report(new TabStateSyncError('ENCRYPT', 'Encryption unavailable, falling back to in-memory mode', err));
+      }
+    }
+
+    try {
+      if (encryptionUnavailable) {
+        this.transport = new MemoryTransport(this.key);
+      } else if (typeof options.transport === 'function') {
+        this.transportFactory = options.transport;
+        this.transport = options.transport(this.key);
+      } else {
+        this.transport = options.transport ?? createDefaultTransport(key, this.key);
+      }
+    } catch (err) {
+      // For example BroadcastChannel and localStorage in sandboxed iframes
+      this.report(new TabStateSyncError('TRANSPORT', 'Transport unavailable, falling back to in-memory mode', err));
+      this.transport = new MemoryTransport(this.key);
+    }
+    this.listen();
+
+    try {
+      if (this.transport.read) {
+        const stored = this.transport.read();
+        if (stored instanceof Promise) {
+          // Asynchronous stores such as IndexedDB, applied before later messages
+          this.enqueue(() => stored.then((raw) => this.hydrate(raw), (err) => {
+            this.degrade(err);
+            this.send(this.createMessage('hydrate-request'));
+          }));
+        } else {
+          this.hydrate(stored);
         }
-      }, 500);
-    } else {
-      // All other browsers: use storage event
-      window.addEventListener('storage', this.onStorage);
+      } else {
+        // Nothing is stored by this transport, so ask the other tabs for their current value
+        this.send(this.createMessage('hydrate-request'));
+      }
+    } catch (err) {
+      this.degrade(err);
+      this.send(this.createMessage('hydrate-request'));
+    }
+
+    if (options.persist && !encryptionUnavailable) {
+      const mode = typeof options.persist === 'string' ? options.persist : options.persist.mode;
+      // Storage transports already keep the value
+      const storedByTransport = (mode === 'local' &&
+        (this.transport instanceof StorageEventTransport || this.transport instanceof PollingStorageTransport)) ||
+        (mode === 'indexeddb' && this.transport instanceof IndexedDbTransport);
+      this.persistence = storedByTransport ? null : createPersistenceStore(mode, this.key);
+      this.restore();
+    }
+
+    if (options.resync) {
+      this.onGap = options.resync === true ? undefined : options.resync.onGap;
+      if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+        window.addEventListener('pageshow', this.onPageShow);
+        document.addEventListener('resume', this.onResume);
+        document.addEventListener('visibilitychange', this.onVisibilityChange);
+      }
     }
+
+    if (options.presence) {
+      this.presence = new TabPresence(this.tabId, (presence) => {
+        const message = this.createMessage('presence');
+        message.presence = presence;
+        this.send(message);
+      }, options.presence === true ? {} : options.presence);
+      this.presence.start();
+    }
+  }
+
+  /**
+   * Returns the ID identifying this instance to other tabs. It stays the same for the lifetime of the instance.
+   */
+  getTabId(): string {
+    return this.tabId;
+  }
+
+  /**
+   * Returns the other tabs listening on this key.
+   * Always empty unless the `presence` option is enabled.
+   */
+  getPeers(): PeerInfo[] {
+    return this.presence ? this.presence.getPeers() : [];
+  }
+
+  /**
+   * Registers a callback called when tabs join, leave or change their metadata.
+   * Requires the `presence` option.
+   * @param callback Function to call with the current peers.
+   * @returns Function removing the callback
+   */
+  onPeersChange(callback: (peers: PeerInfo[]) => void): () => void {
+    return this.presence ? this.presence.onChange(callback) : () => {};
+  }
+
+  /**
+   * Shares a user-defined payload with the other tabs, available in their PeerInfo.data.
+   * Requires the `presence` option.
+   * @param data Any value the transport can carry
+   */
+  setPresenceData(data: unknown): void {
+    this.presence?.setData(data);
+  }
+
+  /**
+   * Returns the current value, either set locally, received from another tab
+   * or hydrated on creation. Returns undefined if no value is known yet.
+   */
+  get(): T | undefined {
+    return this.lastValue;
   }
 
   /**
    * Registers a callback to be called when the value changes in another tab.
    * @param callback Function to call with the new value.
+   * @returns Function removing the callback
    */
-  subscribe(callback: Callback<T>): void {
-    this.callbacks.add(callback);
+  subscribe(callback: Callback<T>): () => void;
+  /**
+   * Registers a callback called only when the selected part of the value changes.
+   * Remove it with the returned function, unsubscribe() does not know it.
+   * @param selector Function picking part of the value. Also called with undefined while no value is known.
+   * @param callback Function to call with the new and the previous selection.
+   * @param equalityFn Function comparing selections, `Object.is` by default.
+   * @returns Function removing the callback
+   */
+  subscribe<S>(
+    selector: (value: T | undefined) => S,
+    callback: (selected: S, previous: S) => void,
+    equalityFn?: (a: S, b: S) => boolean
+  ): () => void;
+  subscribe<S>(
+    selectorOrCallback: Callback<T> | ((value: T | undefined) => S),
+    callback?: (selected: S, previous: S) => void,
+    equalityFn: (a: S, b: S) => boolean = Object.is
+  ): () => void {
+    if (!callback) {
+      const listener = selectorOrCallback as Callback<T>;
+      this.callbacks.add(listener);
+      return () => this.unsubscribe(listener);
+    }
+    const selector = selectorOrCallback as (value: T | undefined) => S;
+    let selected = selector(this.lastValue);
+    const listener = (value: T) => {
+      const next = selector(value);
+      if (equalityFn(selected, next)) return;
+      const previous = selected;
+      selected = next;
+      callback(next, previous);
+    };
+    this.callbacks.add(listener);
+    return () => { this.callbacks.delete(listener); };
   }
 
   /**
@@ -145,74 +485,725 @@ export class TabStateSync<T = any> {
   }
 
   /**
-   * Sets a new value and notifies other tabs.
-   * Uses BroadcastChannel if available, otherwise falls back to localStorage.
-   * On Safari, triggers polling fallback for cross-tab sync.
+   * Sets a new value and notifies other tabs through the transport.
+   * With encryption enabled, the value is written asynchronously; use flush() to wait for it.
    * @param value The new value to set and broadcast.
    */
   set(value: T): void {
     if (this.destroyed) return;
     this.lastValue = value;
-    this.isSetting = true;
-    
+    this.nextStamp();
+
+    // Transports never deliver a message back to its sender, so no echo has to be filtered
+    this.send(this.createMessage('value', value), true);
+    this.persist();
+
+    this.notify(value);
+  }
+
+  /**
+   * Updates part of the value and sends only the difference to other tabs, as a JSON Patch.
+   * Tabs that missed an earlier change ask for the full value instead of applying the patch.
+   * Transports that store the state (such as localStorage or a SharedWorker) receive the full value.
+   * @param update Function computing the next value, or a JSON Patch to apply to the current value
+   */
+  update(update: Updater<T> | JsonPatchOperation[]): void;
+  /**
+   * Updates the value while holding a lock shared by every tab (see withLock), so read-modify-writes
+   * of the same key from different tabs run one after the other instead of overwriting each other.
+   * The updater receives the value written by the previous holder of the lock.
+   * @param update Function computing the next value
+   * @param options `{ lock: true }`, and how long to wait for the lock
+   * @returns Promise resolved once the value was written
+   */
+  update(update: Updater<T>, options: UpdateOptions): Promise<void>;
+  update(update: Updater<T> | JsonPatchOperation[], options?: UpdateOptions): void | Promise<void> {
+    if (options?.lock) {
+      return this.lockedUpdate(update as Updater<T>, options);
+    }
+    if (this.destroyed) return;
+    const current = this.lastValue;
+    const next = typeof update === 'function' ? update(current) : applyPatch(current as T, update);
+    const ops = typeof update === 'function' ? createPatch(current, next) : update;
+    if (ops.length === 0) return;
+
+    const base = this.stamp;
+    if (!this.hasValue || !base || this.retainsState()) {
+      this.set(next);
+      return;
+    }
+
+    this.lastValue = next;
+    this.nextStamp();
+    const message = this.createMessage('patch');
+    message.ops = ops;
+    message.base = { clock: base.clock, tab: base.tab };
+    this.send(message);
+    this.persist();
+
+    this.notify(next);
+  }
+
+  /**
+   * Resolves once all pending encryption, decryption and asynchronous validation work has completed.
+   * Without encryption or an asynchronous schema everything is synchronous and this resolves immediately.
+   */
+  async flush(): Promise<void> {
+    while (this.pending) {
+      await this.pending;
+    }
+  }
+
+  /**
+   * Applies an update under the lock of the key. The message of the previous holder may still
+   * be on its way when the lock is granted, so each holder also hands the value it wrote to the
+   * next holder through localStorage. The next holder takes it out before running its updater,
+   * and a value no holder took within LOCKED_VALUE_DURATION is discarded.
+   */
+  private lockedUpdate(update: Updater<T>, options: UpdateOptions): Promise<void> {
+    const lockedKey = `${this.key}#locked`;
+    return withLock(`${this.name}#update`, () => Promise.resolve()
+      .then(() => this.transport.read?.())
+      .then((stored) => this.hydrate(stored), (err) => this.logError('Error reading the stored value before a locked update:', err))
+      .then(() => {
+        const locked = takeLockedValue(lockedKey);
+        if (locked !== null) {
+          this.receive(locked, 'locked value', (message) => this.applyRemote(message));
+        }
+        return this.flush();
+      })
+      .then(() => {
+        this.update(update);
+        if (this.destroyed || !this.hasValue) return;
+        const data = this.encode(this.createMessage('value', this.lastValue), true);
+        return Promise.resolve(data).then((encoded) => {
+          writeLockedValue(lockedKey, { data: encoded, until: Date.now() + LOCKED_VALUE_DURATION });
+        });
+      })
+      .then(() => this.flush()), {
+      namespace: this.options.namespace,
+      timeout: options.timeout,
+      transport: this.transportFactory
+    });
+  }
+
+  /**
+   * Stamps a local write with the next Lamport clock value
+   */
+  private nextStamp() {
+    this.clock++;
+    this.stamp = { clock: this.clock, tab: this.tabId, ts: Date.now() };
+  }
+
+  private notify(value: T) {
+    this.lastValue = value;
+    this.hasValue = true;
+    this.callbacks.forEach(cb => cb(value));
+  }
+
+  /**
+   * Creates a message. Value messages carry the stamp of the current value.
+   */
+  private createMessage(type: MessageType, value?: T): SyncMessage<T> {
     const message: SyncMessage<T> = {
-      value,
+      type,
       ts: Date.now(),
-      v: TabStateSync.SCHEMA_VERSION
+      v: this.options.version
+    };
+    if (type !== 'hydrate-request' && type !== 'presence') {
+      if (type !== 'patch') {
+        message.value = value;
+      }
+      if (this.stamp) {
+        message.ts = this.stamp.ts;
+        message.clock = this.stamp.clock;
+        message.tab = this.stamp.tab;
+      }
+    }
+    return message;
+  }
+
+  /**
+   * Applies a value written by another tab, resolving conflicts with the local value
+   */
+  private applyRemote(message: SyncMessage<T>) {
+    const remote: Stamp = { clock: message.clock ?? 0, tab: message.tab ?? '', ts: message.ts };
+    const remoteValue = message.value as T;
+    // Lamport clock: later local writes are ordered after everything seen so far
+    this.clock = Math.max(this.clock, remote.clock);
+
+    const local = this.stamp;
+    if (!this.hasValue || !local) {
+      this.stamp = remote;
+      this.notify(remoteValue);
+      return;
+    }
+    // The same write, for example answered to a hydrate request
+    if (compareStamps(remote, local) === 0) return;
+
+    const resolution = this.options.conflictResolution;
+    if (typeof resolution === 'function') {
+      if (remote.clock > local.clock) {
+        // The remote tab had already seen our value, so this is a plain update
+        this.stamp = remote;
+        this.notify(remoteValue);
+      } else {
+        // Keep the higher stamp so that every tab ends with the same one
+        this.stamp = compareStamps(remote, local) > 0 ? remote : local;
+        this.notify(resolution(this.lastValue as T, remoteValue));
+        // No tab wrote the merged value, so every tab persists it. Tabs receiving it already have it,
+        // as the stamp is the same, but a transport keeping the state would otherwise never see it.
+        if (this.retainsState()) this.send(this.createMessage('value', this.lastValue), true);
+        this.persist();
+      }
+      return;
+    }
+
+    const remoteWins = resolution === 'first-writer-wins'
+      ? remote.clock > local.clock || (remote.clock === local.clock && compareWriteTime(remote, local) < 0)
+      : compareStamps(remote, local) > 0;
+    if (remoteWins) {
+      this.stamp = remote;
+      this.notify(remoteValue);
+    }
+  }
+
+  /**
+   * Whether the transport keeps the latest state for tabs opened later, which patches would not update
+   */
+  private retainsState(): boolean {
+    return !!this.transport.read || !!this.transport.retains;
+  }
+
+  /**
+   * Runs tasks in order. While nothing asynchronous is pending, tasks run synchronously,
+   * so instances without encryption keep delivering values in the same tick.
+   */
+  private enqueue(task: () => void | Promise<void>): void {
+    const fail = (err: unknown) => {
+      if (err instanceof TabStateSyncError) {
+        this.report(err);
+      } else {
+        this.logError('Error processing message:', err);
+      }
+    };
+    let result: void | Promise<void>;
+    try {
+      result = this.pending ? this.pending.then(task) : task();
+    } catch (err) {
+      fail(err);
+      return;
+    }
+    if (!result) return;
+
+    const tail: Promise<void> = result
+      .catch(fail)
+      .then(() => {
+        if (this.pending === tail) this.pending = null;
+      });
+    this.pending = tail;
+  }
+
+  /**
+   * Encodes a message (encrypting it if enabled) and sends it to the other tabs
+   * @param message The message to send
+   * @param retain Whether the message carries the latest state, see TransportSendOptions
+   */
+  private send(message: SyncMessage<T>, retain = false): void {
+    this.enqueue(() => {
+      // Structured-clonable values such as typed arrays survive only when not serialized
+      if (this.transport.structured && !this.cipher) {
+        this.transmit(message, retain);
+        return;
+      }
+      // Only transports that store data need compression
+      const data = this.encode(message, !!this.transport.read);
+      if (typeof data === 'string') {
+        this.transmit(data, retain);
+        return;
+      }
+      return data.then((encoded) => this.transmit(encoded, retain));
+    });
+  }
+
+  /**
+   * Serializes a message, then compresses and encrypts it if enabled.
+   * Synchronous unless compression or encryption is involved. Serializer failures throw a `SERIALIZE` error.
+   * @param allowCompression Whether the destination benefits from compression
+   */
+  private encode(message: SyncMessage<T>, allowCompression: boolean): string | Promise<string> {
+    let text: string;
+    try {
+      text = this.options.serializer.serialize(message);
+    } catch (err) {
+      throw new TabStateSyncError('SERIALIZE', 'Serialization error, the value was neither shared nor persisted', err);
+    }
+    const shouldCompress = allowCompression &&
+      this.compressionThreshold !== null &&
+      text.length >= this.compressionThreshold;
+    if (!shouldCompress && !this.cipher) return text;
+
+    // Compress before encrypting: ciphertext does not compress
+    return (shouldCompress ? compress(text).catch(() => text) : Promise.resolve(text))
+      .then((data) => {
+        if (!this.cipher) return data;
+        return this.cipher.encrypt(data).catch((err) => {
+          throw new TabStateSyncError('ENCRYPT', 'Encryption error, the value was not shared', err);
+        });
+      });
+  }
+
+  /**
+   * Writes the current value to the persistence store, encoded like transport messages
+   */
+  private persist(): void {
+    const store = this.persistence;
+    if (!store) return;
+    const message = this.createMessage('value', this.lastValue);
+    const write = (data: string) => {
+      try {
+        return store.write(data);
+      } catch (err) {
+        this.reportPersistError(err);
+      }
     };
-    
-    if (this.isBroadcastChannel && this.channel) {
-      this.channel.postMessage(value);
+    this.enqueue(() => {
+      const data = this.encode(message, true);
+      const result = typeof data === 'string' ? write(data) : data.then(write);
+      return result && result.catch((err) => this.reportPersistError(err));
+    });
+  }
+
+  /**
+   * Reads the persisted value. It competes with values from other tabs like any other write.
+   */
+  private restore(): void {
+    const store = this.persistence;
+    if (!store) return;
+    const apply = (data: string | null) => {
+      if (data !== null) {
+        this.receive(data, 'persisted data', (message) => this.applyStored(message));
+      }
+    };
+    this.enqueue(() => {
+      let data: string | null | Promise<string | null>;
+      try {
+        data = store.read();
+      } catch (err) {
+        this.reportPersistError(err);
+        return;
+      }
+      if (!(data instanceof Promise)) return apply(data);
+      return data.then(apply, (err) => this.reportPersistError(err));
+    });
+  }
+
+  private reportPersistError(err: unknown): void {
+    if (err instanceof TabStateSyncError) {
+      this.report(err);
+    } else if (isQuotaError(err)) {
+      this.report(new TabStateSyncError('QUOTA', 'Storage quota exceeded, the value was not persisted', err));
     } else {
-      const serialized = JSON.stringify(message);
-      const dataToStore = this.options.enableEncryption 
-        ? this.encrypt(serialized) 
-        : serialized;
-        
-      localStorage.setItem(this.key, dataToStore);
-      
-      // For Safari polling, update lastPolledValue immediately
-      if (this.isSafari()) {
-        this.lastPolledValue = dataToStore;
+      this.report(new TabStateSyncError('PERSIST', 'The value could not be persisted or restored', err));
+    }
+  }
+
+  /**
+   * Applies a value read from storage, unless it is older than the `ttl` of the persist option
+   */
+  private applyStored(message: SyncMessage<T>): void {
+    this.detectGap(message, 'storage');
+    if (this.ttl !== null && message.ts + this.ttl <= Date.now()) {
+      const store = this.persistence;
+      if (store) {
+        Promise.resolve()
+          .then(() => store.clear())
+          .catch((err) => this.reportPersistError(err));
       }
+      return;
     }
-    
-    this.notify(value);
-    setTimeout(() => { this.isSetting = false; }, 0);
+    this.applyRemote(message);
   }
 
-  private notify(value: T) {
-    this.lastValue = value;
-    this.callbacks.forEach(cb => cb(value));
+  /**
+   * Hands encoded data to the transport. A full storage is reported and the next write tried again;
+   * any other failure switches the instance to in-memory mode.
+   */
+  private transmit(data: unknown, retain: boolean): void {
+    const transport = this.transport;
+    const fail = (err: unknown) => {
+      if (isQuotaError(err)) {
+        this.report(new TabStateSyncError('QUOTA', 'Storage quota exceeded, the value was not shared with other tabs', err));
+      } else if (this.transport === transport) {
+        this.degrade(err);
+      }
+    };
+    try {
+      const result = transport.send(data, { retain });
+      if (result) result.catch(fail);
+    } catch (err) {
+      fail(err);
+    }
   }
 
-  private onStorage = (e: StorageEvent) => {
-    if (e.key !== this.key || !e.newValue) return;
+  /**
+   * Replaces a failed transport with the fallback it offers, or with an in-memory one. In memory,
+   * the instance keeps working but only stays in sync with instances of the same page.
+   */
+  private degrade(err: unknown, fallback?: Transport): void {
+    const mode = fallback ? 'the default transport' : 'in-memory mode';
+    this.report(new TabStateSyncError('TRANSPORT', `Transport failed, falling back to ${mode}`, err));
     try {
-      const decryptedData = this.options.enableEncryption 
-        ? this.decrypt(e.newValue) 
-        : e.newValue;
-        
-      const parsed = JSON.parse(decryptedData);
-      
-      if (!this.isValidSyncMessage(parsed)) {
-        this.logError('Invalid data format in storage event:', parsed);
+      this.transport.close();
+    } catch {
+      // The transport is already broken
+    }
+    this.transport = fallback ?? new MemoryTransport(this.key);
+    this.listen();
+    if (fallback) this.rejoin();
+  }
+
+  /**
+   * Catches up on a new transport, as messages sent over the failed one may never have arrived:
+   * reads what it stores or asks the other tabs, then shares the value this tab wrote
+   */
+  private rejoin(): void {
+    try {
+      if (this.transport.read) {
+        const stored = this.transport.read();
+        if (stored instanceof Promise) {
+          this.enqueue(() => stored.then((raw) => this.hydrate(raw), (err) => this.logError('Error reading the stored value:', err)));
+        } else {
+          this.hydrate(stored);
+        }
+      } else {
+        this.send(this.createMessage('hydrate-request'));
+      }
+    } catch (err) {
+      this.logError('Error reading the stored value:', err);
+    }
+    this.enqueue(() => {
+      if (this.hasValue && this.stamp?.tab === this.tabId) {
+        this.send(this.createMessage('value', this.lastValue), true);
+      }
+    });
+  }
+
+  private listen(): void {
+    const transport = this.transport;
+    transport.onMessage((data) => {
+      this.receive(data, 'transport message', (message) => this.handleMessage(message));
+    });
+    transport.onError?.((err, fallback) => {
+      if (this.transport === transport && !this.destroyed) {
+        this.degrade(err, fallback);
+      } else {
+        fallback?.close();
+      }
+    });
+  }
+
+  /**
+   * Decodes raw data received from the transport and passes valid messages to the handler
+   * @param raw Raw message or stored string
+   * @param source Where the data came from, used in error messages
+   * @param handler Called with the decoded message
+   * @param allowLegacy Accept data encrypted with the legacy XOR cipher, only for the stored value
+   */
+  private receive(raw: unknown, source: string, handler: MessageHandler<T>, allowLegacy = false): void {
+    this.enqueue(() => {
+      if (!this.cipher) {
+        const message = typeof raw === 'string' ? this.decode(raw, source) : this.validate(raw, source);
+        if (message instanceof Promise) {
+          return message.then((decoded) => (decoded ? this.deliver(decoded, source, handler) : undefined));
+        }
+        return message ? this.deliver(message, source, handler) : undefined;
+      }
+      return this.decrypt(raw, source, allowLegacy).then((message) => {
+        return message ? this.deliver(message, source, handler) : undefined;
+      });
+    });
+  }
+
+  /**
+   * Passes a decoded message to the handler once the value it carries was migrated and passed validation
+   */
+  private deliver(message: SyncMessage<T>, source: string, handler: MessageHandler<T>): void | Promise<void> {
+    if (this.destroyed) return;
+    const type = message.type ?? 'value';
+    if (type !== 'value' && type !== 'hydrate-response' && type !== 'patch') {
+      return handler(message);
+    }
+
+    const version = this.options.version;
+    if (message.v > version) {
+      if (this.onVersionMismatch) {
+        this.onVersionMismatch(message.v, version);
+      } else {
+        this.reject('VERSION', `Data from ${source} uses version ${message.v}, newer than ${version}`, message);
+      }
+      return;
+    }
+    if (type === 'patch') {
+      // A patch cannot be migrated, the full value is migrated instead
+      if (message.v < version) {
+        this.requestResync();
+        return;
+      }
+      return handler(message);
+    }
+
+    let value: unknown = message.value;
+    if (message.v < version) {
+      try {
+        value = this.migrate(value, message.v);
+      } catch (err) {
+        this.reject('MIGRATION', `Migration of data from ${source} failed`, err);
+        return;
+      }
+    }
+    return this.checkValue(value, source, (checked) => handler({ ...message, value: checked, v: version }));
+  }
+
+  /**
+   * Runs the migrations from the given version up to the current one
+   */
+  private migrate(value: unknown, from: number): unknown {
+    const { migrations, version } = this.options;
+    for (let v = from + 1; v <= version; v++) {
+      if (migrations[v]) value = migrations[v](value);
+    }
+    return value;
+  }
+
+  /**
+   * Checks a value received from another tab with the `validate` and `schema` options.
+   * Runs synchronously unless the schema validates asynchronously.
+   * @param accept Called with the validated value, as output by the schema
+   */
+  private checkValue(value: unknown, source: string, accept: (value: T) => void | Promise<void>): void | Promise<void> {
+    if (this.guard && !this.guard(value)) {
+      this.reject('VALIDATION', `Value from ${source} failed validation`, value);
+      return;
+    }
+    if (!this.schema) {
+      return accept(value as T);
+    }
+    const settle = (result: StandardSchemaResult<T>) => {
+      if (result.issues) {
+        const issues = result.issues.map((issue) => issue.message).join('; ');
+        this.reject('VALIDATION', `Value from ${source} does not match the schema: ${issues}`, value);
         return;
       }
-      
-      this.notify(parsed.value);
+      if (!this.destroyed) return accept(result.value);
+    };
+    const result = this.schema['~standard'].validate(value);
+    return result instanceof Promise ? result.then(settle) : settle(result);
+  }
+
+  /**
+   * Decompresses a payload if needed, then parses it.
+   * Only deflate payloads are decoded asynchronously.
+   */
+  private decode(text: string, source: string): SyncMessage<T> | null | Promise<SyncMessage<T> | null> {
+    if (!isCompressed(text)) return this.parse(text, source);
+    let result: string | Promise<string>;
+    try {
+      result = decompress(text);
+    } catch (err) {
+      this.reject('PARSE', `Decompression error in ${source}`, err);
+      return null;
+    }
+    if (typeof result === 'string') return this.parse(result, source);
+    return result.then(
+      (decompressed) => this.parse(decompressed, source),
+      (err) => {
+        this.reject('PARSE', `Decompression error in ${source}`, err);
+        return null;
+      }
+    );
+  }
+
+  private parse(text: string, source: string): SyncMessage<T> | null {
+    try {
+      return this.validate(this.options.serializer.deserialize(text), source);
     } catch (err) {
-      this.logError('Error handling storage event:', err);
+      this.reject('PARSE', `Error parsing data from ${source}`, err);
+      return null;
     }
+  }
+
+  private validate(data: unknown, source: string): SyncMessage<T> | null {
+    if (!this.isValidSyncMessage(data)) {
+      this.reject('PARSE', `Invalid data format in ${source}`, data);
+      return null;
+    }
+    return data;
+  }
+
+  /**
+   * Decrypts and parses an encrypted message. Unencrypted or tampered payloads are rejected,
+   * and so are legacy XOR payloads unless `allowLegacy` is set.
+   */
+  private async decrypt(raw: unknown, source: string, allowLegacy: boolean): Promise<SyncMessage<T> | null> {
+    if (typeof raw !== 'string' || (!isAesGcmPayload(raw) && !allowLegacy)) {
+      this.reject('DECRYPT', `Unencrypted data rejected from ${source}`, raw);
+      return null;
+    }
+    if (!isAesGcmPayload(raw)) {
+      return this.decryptLegacy(raw, source);
+    }
+    try {
+      return await this.decode(await this.cipher!.decrypt(raw), source);
+    } catch (err) {
+      this.reject('DECRYPT', `Decryption error in ${source}`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Reads data written with the XOR cipher of previous versions
+   */
+  private decryptLegacy(raw: string, source: string): SyncMessage<T> | null {
+    const key = this.options.encryptionKey;
+    if (typeof key !== 'string') {
+      this.reject('DECRYPT', `Unencrypted data rejected from ${source}`, raw);
+      return null;
+    }
+    try {
+      return this.parse(decryptLegacyXor(raw, key), source);
+    } catch (err) {
+      this.reject('DECRYPT', `Decryption error in ${source}`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Handles a message received from another tab, including the hydration handshake
+   */
+  private handleMessage(message: SyncMessage<T>): void | Promise<void> {
+    switch (message.type ?? 'value') {
+      case 'hydrate-request':
+        // Only answer if this tab actually knows a value
+        if (this.hasValue) {
+          this.send(this.createMessage('hydrate-response', this.lastValue));
+        }
+        break;
+      case 'patch':
+        return this.applyRemotePatch(message);
+      case 'presence':
+        this.presence?.handle(message.presence!);
+        break;
+      default:
+        if (message.type === 'hydrate-response') {
+          this.detectGap(message, 'peer');
+        }
+        // Several tabs may answer a hydrate request, conflict resolution picks one answer
+        this.applyRemote(message);
+    }
+  }
+
+  /**
+   * Applies a patch if it is based on the local version, otherwise asks for the full value
+   */
+  private applyRemotePatch(message: SyncMessage<T>): void | Promise<void> {
+    const local = this.stamp;
+    const base = message.base!;
+    this.clock = Math.max(this.clock, message.clock ?? 0);
+
+    if (this.hasValue && local && local.clock === base.clock && local.tab === base.tab) {
+      let next: T;
+      try {
+        next = applyPatch(this.lastValue as T, message.ops!);
+      } catch (err) {
+        this.logError('Error applying patch:', err);
+        this.requestResync();
+        return;
+      }
+      return this.checkValue(next, 'patch', (value) => {
+        // A local write made while an asynchronous schema was validating wins over the patch
+        if (this.stamp !== local) return;
+        this.stamp = { clock: message.clock ?? 0, tab: message.tab ?? '', ts: message.ts };
+        this.notify(value);
+      });
+    }
+    this.requestResync();
+  }
+
+  /**
+   * Asks the other tabs for the full value after a missed or unusable patch.
+   * Requests are throttled, since every patch received during a gap would trigger one.
+   */
+  private requestResync() {
+    const now = Date.now();
+    if (now - this.lastResyncRequest < TabStateSync.RESYNC_INTERVAL) return;
+    this.lastResyncRequest = now;
+    this.send(this.createMessage('hydrate-request'));
+  }
+
+  private onPageShow = (event: PageTransitionEvent) => {
+    // Only pages restored from the back/forward cache missed messages
+    if (event.persisted) this.resync();
+  };
+
+  private onResume = () => {
+    this.resync();
+  };
+
+  private onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') this.resync();
   };
 
   /**
-   * Validates if the message has the expected format
+   * Catches up after the page was frozen or cached: reads the stored value again,
+   * and asks the other tabs when the transport stores nothing
+   */
+  private resync() {
+    if (this.destroyed) return;
+    this.resyncUntil = Date.now() + TabStateSync.RESYNC_INTERVAL;
+    try {
+      if (this.transport.read) {
+        const stored = this.transport.read();
+        if (stored instanceof Promise) {
+          this.enqueue(() => stored.then((raw) => this.hydrate(raw), (err) => this.logError('Error reading the stored value on resume:', err)));
+        } else {
+          this.hydrate(stored);
+        }
+      } else {
+        this.requestResync();
+      }
+    } catch (err) {
+      this.logError('Error reading the stored value on resume:', err);
+      this.requestResync();
+    }
+    this.restore();
+  }
+
+  /**
+   * Reports a stored value or hydrate response newer than every write this tab saw, while it resyncs
+   * after resuming. Replies to the requests sent for missed patches are not gaps of a frozen page.
    */
-  private isValidMessage(data: unknown): data is T {
-    // Add your custom validation logic for BroadcastChannel messages
-    // This is a basic validation that can be enhanced
-    return data !== null && data !== undefined;
+  private detectGap(message: SyncMessage<T>, source: SyncGap['source']) {
+    if (!this.onGap || Date.now() > this.resyncUntil) return;
+    const to = message.clock ?? 0;
+    if (to > this.clock) {
+      this.onGap({ from: this.clock, to, source });
+    }
+  }
+
+  /**
+   * Reads the value already stored by the transport so a new tab starts in sync.
+   * Data still encrypted with the legacy XOR cipher is re-encrypted with AES-GCM.
+   */
+  private hydrate(raw: unknown) {
+    if (raw === null || raw === undefined) return;
+    const isLegacy = this.cipher !== null && typeof raw === 'string' && !isAesGcmPayload(raw);
+    this.receive(raw, 'stored data', (message) => {
+      this.applyStored(message);
+      if (isLegacy) {
+        this.send(this.createMessage('value', message.value), true);
+      }
+    }, isLegacy);
   }
 
   /**
@@ -220,60 +1211,55 @@ export class TabStateSync<T = any> {
    */
   private isValidSyncMessage(data: unknown): data is SyncMessage<T> {
     if (!data || typeof data !== 'object') return false;
-    
+
     const msg = data as Partial<SyncMessage<T>>;
+    if (msg.type !== undefined && !MESSAGE_TYPES.includes(msg.type)) {
+      return false;
+    }
+    if (msg.type === 'patch' && (
+      !Array.isArray(msg.ops) ||
+      !msg.base ||
+      typeof msg.base.clock !== 'number' ||
+      typeof msg.base.tab !== 'string'
+    )) {
+      return false;
+    }
+    if (msg.type === 'presence' && (
+      !msg.presence ||
+      typeof msg.presence !== 'object' ||
+      typeof msg.presence.event !== 'string' ||
+      !msg.presence.peer ||
+      typeof msg.presence.peer.id !== 'string'
+    )) {
+      return false;
+    }
+    // No `value` stands for undefined, which JSON drops
     return (
-      'value' in msg && 
       'ts' in msg &&
       typeof msg.ts === 'number' &&
       'v' in msg &&
-      typeof msg.v === 'number'
+      typeof msg.v === 'number' &&
+      (msg.clock === undefined || typeof msg.clock === 'number') &&
+      (msg.tab === undefined || typeof msg.tab === 'string')
     );
   }
 
   /**
-   * Very simple encryption for localStorage
-   * Note: This is NOT secure for highly sensitive data!
+   * Reports data received from another tab or read from storage that was rejected
+   * @param code What went wrong
+   * @param message Description of the problem
+   * @param data The rejected data or the underlying error
    */
-  private encrypt(text: string): string {
-    if (!this.options.enableEncryption) return text;
-    
-    // Simple XOR encryption with the key
-    const key = this.options.encryptionKey;
-    let result = '';
-    
-    for (let i = 0; i < text.length; i++) {
-      const charCode = text.charCodeAt(i) ^ key.charCodeAt(i % key.length);
-      result += String.fromCharCode(charCode);
-    }
-    
-    // Return base64 encoded string
-    return btoa(result);
+  private reject(code: TabStateSyncErrorCode, message: string, data?: unknown): void {
+    this.report(new TabStateSyncError(code, message, data));
   }
 
   /**
-   * Decrypt data from localStorage
+   * Passes an error to onError, and logs it in debug mode
    */
-  private decrypt(text: string): string {
-    if (!this.options.enableEncryption) return text;
-    
-    try {
-      // Decode base64
-      const decoded = atob(text);
-      const key = this.options.encryptionKey;
-      let result = '';
-      
-      // Simple XOR decryption
-      for (let i = 0; i < decoded.length; i++) {
-        const charCode = decoded.charCodeAt(i) ^ key.charCodeAt(i % key.length);
-        result += String.fromCharCode(charCode);
-      }
-      
-      return result;
-    } catch (err) {
-      this.logError('Decryption error:', err);
-      return text; // Fallback to original text on error
-    }
+  private report(error: TabStateSyncError): void {
+    this.logError(`${error.message}:`, error.cause);
+    this.onError?.(error);
   }
 
   /**
@@ -286,20 +1272,82 @@ export class TabStateSync<T = any> {
   }
 
   /**
-   * Cleans up listeners and disables the instance.
-   * Removes BroadcastChannel, storage event, or polling interval as needed.
+   * Cleans up listeners and disables the instance by closing its transport.
+   * Pending encrypted writes are still sent before the transport is closed.
    */
   destroy() {
-    if (this.isBroadcastChannel && this.channel) {
-      this.channel.close();
-    } else if (this.isSafari() && this.pollingInterval) {
-      // Clear polling interval for Safari
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
-    } else {
-      window.removeEventListener('storage', this.onStorage);
-    }
+    // Say goodbye while the transport is still open
+    this.presence?.stop();
     this.callbacks.clear();
     this.destroyed = true;
+    if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+      window.removeEventListener('pageshow', this.onPageShow);
+      document.removeEventListener('resume', this.onResume);
+      document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    }
+    if (this.pending) {
+      this.pending.then(() => this.transport.close());
+    } else {
+      this.transport.close();
+    }
+  }
+}
+
+/**
+ * Value handed by a locked update to the next holder of the lock
+ */
+interface LockedValue {
+  data: string;
+  until: number;
+}
+
+/**
+ * How long a locked update's value waits for the next holder, in milliseconds. Only covers the delay
+ * of the message carrying the same value, so it never outlives the tabs of the session.
+ */
+const LOCKED_VALUE_DURATION = 1000;
+
+/**
+ * Values handed over in pages where localStorage is unavailable; only seen by the same page
+ */
+const memoryLockedValues: Map<string, LockedValue> = new Map();
+
+/**
+ * Removes the value left by the previous holder, and returns it unless it expired
+ */
+function takeLockedValue(key: string): string | null {
+  let locked: LockedValue | null;
+  try {
+    const raw = localStorage.getItem(key);
+    localStorage.removeItem(key);
+    locked = raw ? JSON.parse(raw) : null;
+  } catch {
+    locked = memoryLockedValues.get(key) ?? null;
+    memoryLockedValues.delete(key);
+  }
+  return locked && locked.until > Date.now() ? locked.data : null;
+}
+
+function writeLockedValue(key: string, locked: LockedValue): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(locked));
+  } catch {
+    memoryLockedValues.set(key, locked);
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Orders writes by Lamport clock, breaking ties by tab ID
+ */
+function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.tab < b.tab ? -1 : a.tab > b.tab ? 1 : 0;
+}
+
+/**
+ * Orders writes by wall-clock time, breaking ties by tab ID
+ */
+function compareWriteTime(a: Stamp, b: Stamp): number {
+  if (a.ts !== b.ts) return a.ts - b.ts;
+  return a.tab < b.tab ? -1 : a.tab > b.tab ? 1 : 0;
+}
@@ -0,0 +1,260 @@
+import { deepEqual } from './jsonPatch';
+import { StandardSchemaResult } from './standardSchema';
+import { Migrations, TabStateSync, TabStateSyncOptions } from './TabStateSync';
+
+type KeyCallback<V> = (value: V) => void;
+
+/**
+ * Value of a key with the stamp of its last write: the Lamport clock and the ID of the writing tab
+ */
+interface Entry<V> {
+  value: V;
+  clock: number;
+  tab: string;
+}
+
+type Entries<S> = { [K in keyof S]?: Entry<S[K]> };
+
+/**
+ * Configuration options for TabStore.
+ * `validate`, `schema` and `migrations` receive the record of values, as with a TabStateSync holding it.
+ */
+export interface TabStoreOptions<S extends Record<string, unknown>> extends Omit<TabStateSyncOptions<Partial<S>>, 'conflictResolution'> {
+  /**
+   * Name of the store, tabs using the same name share its keys
+   * @default 'store'
+   */
+  name?: string;
+}
+
+function isEntries(value: unknown): value is Entries<Record<string, unknown>> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.keys(value).every((key) => {
+    const entry = (value as Record<string, Entry<unknown>>)[key];
+    // JSON drops `value` when it is undefined
+    return !!entry && typeof entry === 'object' && typeof entry.clock === 'number' && typeof entry.tab === 'string';
+  });
+}
+
+function valuesOf<S>(entries: Entries<S>): Partial<S> {
+  return (Object.keys(entries) as (keyof S)[]).reduce((values, key) => {
+    values[key] = entries[key]!.value;
+    return values;
+  }, {} as Partial<S>);
+}
+
+/**
+ * Puts values returned by a schema or a migration back into entries, keeping the stamp of each key
+ */
+function withValues<S>(entries: Entries<S>, values: Partial<S>): Entries<S> {
+  return (Object.keys(values) as (keyof S)[]).reduce((result, key) => {
+    const entry = entries[key];
+    result[key] = { value: values[key] as S[keyof S], clock: entry?.clock ?? 0, tab: entry?.tab ?? '' };
+    return result;
+  }, {} as Entries<S>);
+}
+
+/**
+ * Orders the writes of a key by Lamport clock, breaking ties by tab ID
+ */
+function compareEntries(a: Entry<unknown>, b: Entry<unknown>): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.tab < b.tab ? -1 : a.tab > b.tab ? 1 : 0;
+}
+
+/**
+ * Adapts the options checking the record of values to the entries actually synced
+ */
+function entryOptions<S extends Record<string, unknown>>(
+  options: Omit<TabStoreOptions<S>, 'name'>
+): TabStateSyncOptions<Entries<S>> {
+  const { validate, schema, migrations, ...syncOptions } = options;
+  const result: TabStateSyncOptions<Entries<S>> = {
+    ...syncOptions,
+    validate: (value): value is Entries<S> => isEntries(value) && (!validate || validate(valuesOf(value)))
+  };
+  if (schema) {
+    const standard = schema['~standard'];
+    result.schema = {
+      '~standard': {
+        version: 1,
+        vendor: standard.vendor,
+        validate: (value) => {
+          const entries = value as Entries<S>;
+          const settle = (checked: StandardSchemaResult<Partial<S>>): StandardSchemaResult<Entries<S>> =>
+            checked.issues ? checked : { value: withValues(entries, checked.value) };
+          const checked = standard.validate(valuesOf(entries));
+          return checked instanceof Promise ? checked.then(settle) : settle(checked);
+        }
+      }
+    };
+  }
+  if (migrations) {
+    result.migrations = Object.keys(migrations).reduce((wrapped, version) => {
+      const migrate = migrations[Number(version)];
+      wrapped[Number(version)] = (value: Entries<S>) => withValues(value, migrate(valuesOf(value)) as Partial<S>);
+      return wrapped;
+    }, {} as Migrations);
+  }
+  return result;
+}
+
+/**
+ * TabStore syncs many keys over a single TabStateSync instance, so an app with
+ * dozens of synced settings opens one channel (or one storage listener, or one
+ * polling loop on Safari) instead of one per key.
+ *
+ * Each write sends only the keys that changed, as a JSON Patch. Keys that were
+ * never written read as their default value. Every key keeps the stamp of its last write,
+ * and concurrent writes are resolved key by key: the last writer wins for each key, so
+ * writes to different keys from two tabs are all kept.
+ */
+export class TabStore<S extends Record<string, unknown>> {
+  private sync: TabStateSync<Entries<S>>;
+  private callbacks: Map<keyof S, Set<KeyCallback<any>>> = new Map();
+  private entries: Entries<S>;
+  private clock = 0;
+  private draft: Partial<S> | null = null;
+
+  /**
+   * Creates a new TabStore
+   * @param defaults Default value of every key, also defining the keys of the store
+   * @param options Configuration options, passed on to TabStateSync
+   */
+  constructor(private defaults: S, options: TabStoreOptions<S> = {}) {
+    const { name = 'store', ...syncOptions } = options;
+    this.sync = new TabStateSync<Entries<S>>(name, entryOptions(syncOptions));
+    this.entries = this.sync.get() ?? {};
+    this.clock = this.maxClock(this.entries);
+    this.sync.subscribe(this.onChange);
+  }
+
+  /**
+   * Returns the current value of a key, or its default if it was never written.
+   * Inside a transaction, writes made so far are visible.
+   */
+  get<K extends keyof S>(key: K): S[K] {
+    if (this.draft && key in this.draft) return this.draft[key] as S[K];
+    return this.read(this.entries, key);
+  }
+
+  /**
+   * Returns the current value of every key
+   */
+  getAll(): S {
+    return { ...this.defaults, ...valuesOf(this.entries), ...this.draft };
+  }
+
+  /**
+   * Sets the value of a key and sends it to the other tabs.
+   * Inside a transaction, the write is sent when the transaction ends.
+   */
+  set<K extends keyof S>(key: K, value: S[K]): void {
+    if (this.draft) {
+      this.draft[key] = value;
+      return;
+    }
+    this.write({ [key]: value } as unknown as Partial<S>);
+  }
+
+  /**
+   * Groups writes so they are sent as a single message and subscribers are called once.
+   * If the function throws, none of its writes are applied. Nested transactions join the outer one.
+   * @param fn Function making the writes
+   */
+  transaction(fn: () => void): void {
+    if (this.draft) {
+      fn();
+      return;
+    }
+    const draft: Partial<S> = {};
+    this.draft = draft;
+    try {
+      fn();
+    } finally {
+      this.draft = null;
+    }
+    if (Object.keys(draft).length > 0) {
+      this.write(draft);
+    }
+  }
+
+  /**
+   * Registers a callback called when the value of a key changes, in this tab or another one.
+   * @returns Function removing the callback
+   */
+  subscribe<K extends keyof S>(key: K, callback: KeyCallback<S[K]>): () => void {
+    let callbacks = this.callbacks.get(key);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.callbacks.set(key, callbacks);
+    }
+    callbacks.add(callback);
+    return () => { callbacks!.delete(callback); };
+  }
+
+  /**
+   * Resolves once all pending asynchronous work has completed, see TabStateSync.flush()
+   */
+  flush(): Promise<void> {
+    return this.sync.flush();
+  }
+
+  /**
+   * Stops syncing and removes every callback
+   */
+  destroy(): void {
+    this.sync.destroy();
+    this.callbacks.clear();
+  }
+
+  /**
+   * Stamps the written keys with the next clock value and sends them
+   */
+  private write(values: Partial<S>): void {
+    this.clock++;
+    const tab = this.sync.getTabId();
+    const next = { ...this.entries };
+    (Object.keys(values) as (keyof S)[]).forEach((key) => {
+      next[key] = { value: values[key] as S[keyof S], clock: this.clock, tab };
+    });
+    this.sync.update(() => next);
+  }
+
+  private read<K extends keyof S>(entries: Entries<S>, key: K): S[K] {
+    const entry = entries[key];
+    return entry ? entry.value : this.defaults[key];
+  }
+
+  private maxClock(entries: Entries<S>): number {
+    return (Object.keys(entries) as (keyof S)[]).reduce((max, key) => Math.max(max, entries[key]!.clock), 0);
+  }
+
+  private onChange = (state: Entries<S> | undefined) => {
+    const received: Entries<S> = state ?? {};
+    // Keep the latest write of each key, local or received
+    const merged: Entries<S> = { ...received };
+    (Object.keys(this.entries) as (keyof S)[]).forEach((key) => {
+      const local = this.entries[key]!;
+      const remote = received[key];
+      if (!remote || compareEntries(local, remote) > 0) merged[key] = local;
+    });
+    const previous = this.entries;
+    this.entries = merged;
+    this.clock = Math.max(this.clock, this.maxClock(merged));
+
+    this.callbacks.forEach((callbacks, key) => {
+      const before = this.read(previous, key);
+      const after = this.read(merged, key);
+      if (!deepEqual(before, after)) {
+        callbacks.forEach((cb) => cb(after));
+      }
+    });
+
+    // The received record lacks newer local writes: send them back so every tab converges
+    const stale = (Object.keys(merged) as (keyof S)[]).some((key) => merged[key] !== received[key]);
+    if (stale) {
+      this.sync.set(merged);
+    }
+  };
+}
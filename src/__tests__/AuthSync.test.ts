@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthSync, AuthSyncOptions } from '../AuthSync';
+import { TabStateSyncError } from '../errors';
+import { MemoryTransport, StorageEventTransport } from '../transports';
+import { createLockManager } from './webLocks';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+interface Session {
+  token: string;
+}
+
+const options: AuthSyncOptions<Session> = {
+  transport: (key: string) => new MemoryTransport(key),
+  useWebLocks: false
+};
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('AuthSync', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    delete (global as any).navigator;
+    dom.window.close();
+  });
+
+  it('should share login and logout with every tab', async () => {
+    const a = new AuthSync<Session>({ ...options, name: 'login' });
+    const onLogoutA = vi.fn();
+    const onLogoutB = vi.fn();
+    const b = new AuthSync<Session>({ ...options, name: 'login', onLogout: onLogoutB });
+    a.onLogout(onLogoutA);
+
+    a.login({ token: 't1' });
+    await tick();
+    expect(a.isAuthenticated()).toBe(true);
+    expect(b.getSession()).toEqual({ token: 't1' });
+
+    b.logout();
+    await tick();
+    expect(a.getSession()).toBeNull();
+    expect(onLogoutA).toHaveBeenCalledTimes(1);
+    expect(onLogoutB).toHaveBeenCalledTimes(1);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should agree on one session after concurrent logins', async () => {
+    const onSessionChangeA = vi.fn();
+    const onSessionChangeB = vi.fn();
+    const a = new AuthSync<Session>({ ...options, name: 'concurrent', onSessionChange: onSessionChangeA });
+    const b = new AuthSync<Session>({ ...options, name: 'concurrent', onSessionChange: onSessionChangeB });
+
+    a.login({ token: 'sessA' });
+    b.login({ token: 'sessB' });
+    await tick();
+
+    const session = a.getSession();
+    expect(session).not.toBeNull();
+    expect(b.getSession()).toEqual(session);
+    expect(onSessionChangeA).toHaveBeenLastCalledWith(session);
+    expect(onSessionChangeB).toHaveBeenLastCalledWith(session);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should give tabs opened later the current session', async () => {
+    const a = new AuthSync<Session>({ ...options, name: 'late' });
+    a.login({ token: 't1' });
+    await tick();
+
+    const onSessionChange = vi.fn();
+    const b = new AuthSync<Session>({ ...options, name: 'late', onSessionChange });
+    await tick();
+
+    expect(b.getSession()).toEqual({ token: 't1' });
+    expect(onSessionChange).toHaveBeenCalledWith({ token: 't1' });
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should refresh in one tab while the others wait for its result', async () => {
+    let release!: (session: Session) => void;
+    const refresh = vi.fn(() => new Promise<Session>((resolve) => { release = resolve; }));
+    const a = new AuthSync<Session>({ ...options, name: 'refresh', refresh });
+    const b = new AuthSync<Session>({ ...options, name: 'refresh', refresh });
+    a.login({ token: 't1' });
+    await tick();
+
+    const first = a.refresh();
+    expect(a.refresh()).toBe(first);
+    await tick();
+    const second = b.refresh();
+    await tick();
+    release({ token: 't2' });
+
+    await expect(first).resolves.toEqual({ token: 't2' });
+    await expect(second).resolves.toEqual({ token: 't2' });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(refresh).toHaveBeenCalledWith({ token: 't1' });
+    expect(b.getSession()).toEqual({ token: 't2' });
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should reject waiting tabs when the refresh fails', async () => {
+    let fail!: (err: Error) => void;
+    const refresh = vi.fn(() => new Promise<Session>((_resolve, reject) => { fail = reject; }));
+    const a = new AuthSync<Session>({ ...options, name: 'failing', refresh });
+    const b = new AuthSync<Session>({ ...options, name: 'failing', refresh });
+    a.login({ token: 't1' });
+    await tick();
+
+    const first = a.refresh();
+    await tick();
+    const second = b.refresh().catch((err: TabStateSyncError) => err);
+    fail(new Error('invalid_grant'));
+
+    await expect(first).rejects.toThrow('invalid_grant');
+    expect(((await second) as TabStateSyncError).code).toBe('REMOTE');
+    expect(refresh).toHaveBeenCalledTimes(1);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should discard a refresh that finishes after a logout in another tab', async () => {
+    let release!: (session: Session) => void;
+    const refresh = vi.fn(() => new Promise<Session>((resolve) => { release = resolve; }));
+    const onLogout = vi.fn();
+    const a = new AuthSync<Session>({ ...options, name: 'logout-refresh', refresh });
+    const b = new AuthSync<Session>({ ...options, name: 'logout-refresh', onLogout });
+    a.login({ token: 't1' });
+    await tick();
+
+    const refreshing = a.refresh().catch((err: TabStateSyncError) => err);
+    await tick();
+    b.logout();
+    await tick();
+    release({ token: 't2' });
+
+    expect(((await refreshing) as TabStateSyncError).code).toBe('REMOTE');
+    await tick();
+    expect(a.getSession()).toBeNull();
+    expect(b.getSession()).toBeNull();
+    expect(onLogout).toHaveBeenCalledTimes(1);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should reject waiting tabs with TIMEOUT when the refresh takes too long', async () => {
+    vi.useFakeTimers();
+    const refresh = vi.fn(() => new Promise<Session>(() => {}));
+    const a = new AuthSync<Session>({ ...options, name: 'slow', refresh, refreshTimeout: 1000 });
+    const b = new AuthSync<Session>({ ...options, name: 'slow', refresh, refreshTimeout: 1000 });
+    a.login({ token: 't1' });
+    a.refresh();
+    await vi.advanceTimersByTimeAsync(10);
+
+    const waiting = b.refresh().catch((err: TabStateSyncError) => err);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(((await waiting) as TabStateSyncError).code).toBe('TIMEOUT');
+    expect(refresh).toHaveBeenCalledTimes(1);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should refresh once with Web Locks', async () => {
+    (global as any).navigator = { locks: createLockManager() };
+    let release!: (session: Session) => void;
+    const refresh = vi.fn(() => new Promise<Session>((resolve) => { release = resolve; }));
+    const lockOptions = { ...options, name: 'locked', refresh, useWebLocks: true };
+    const a = new AuthSync<Session>(lockOptions);
+    const b = new AuthSync<Session>(lockOptions);
+    a.login({ token: 't1' });
+    await tick();
+
+    const first = a.refresh();
+    const second = b.refresh();
+    await tick();
+    release({ token: 't2' });
+
+    await expect(first).resolves.toEqual({ token: 't2' });
+    await expect(second).resolves.toEqual({ token: 't2' });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should refuse to send the session over localStorage without encryption', async () => {
+    const setItem = vi.spyOn(dom.window.Storage.prototype, 'setItem');
+    const onError = vi.fn();
+    const auth = new AuthSync<Session>({
+      transport: (key: string) => new StorageEventTransport(key),
+      useWebLocks: false,
+      name: 'plain',
+      onError
+    });
+    auth.login({ token: 'secret' });
+    await tick();
+
+    expect(auth.getSession()).toEqual({ token: 'secret' });
+    expect(setItem).not.toHaveBeenCalled();
+    expect(onError.mock.calls[0][0]).toMatchObject({ code: 'TRANSPORT' });
+    auth.destroy();
+  });
+
+  it('should only write encrypted messages to localStorage', async () => {
+    const setItem = vi.spyOn(dom.window.Storage.prototype, 'setItem');
+    const auth = new AuthSync<Session>({
+      transport: (key: string) => new StorageEventTransport(key),
+      useWebLocks: false,
+      name: 'encrypted',
+      enableEncryption: true,
+      encryptionKey: 'test-key'
+    });
+    auth.login({ token: 'secret' });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(setItem).toHaveBeenCalled();
+    setItem.mock.calls.forEach(([, value]) => expect(value).not.toContain('secret'));
+    expect(localStorage.length).toBe(0);
+    auth.destroy();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabEventBus, TabEventBusOptions } from '../TabEventBus';
+import { MemoryTransport, StorageEventTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+type AppEvents = {
+  logout: { reason: string };
+  toast: string;
+};
+
+const options: TabEventBusOptions = { transport: (key: string) => new MemoryTransport(key) };
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('TabEventBus', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    dom.window.close();
+  });
+
+  it('should deliver events to handlers of other tabs', async () => {
+    const a = new TabEventBus<AppEvents>('app', options);
+    const b = new TabEventBus<AppEvents>('app', options);
+    const onLogout = vi.fn();
+    const onToast = vi.fn();
+    const onOwn = vi.fn();
+    b.on('logout', onLogout);
+    b.on('toast', onToast);
+    a.on('logout', onOwn);
+
+    a.emit('logout', { reason: 'expired' });
+    await tick();
+
+    expect(onLogout).toHaveBeenCalledWith({ reason: 'expired' }, a.getId());
+    expect(onToast).not.toHaveBeenCalled();
+    expect(onOwn).not.toHaveBeenCalled();
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should deliver events to the sending tab with echo', () => {
+    const bus = new TabEventBus<AppEvents>('echo', { ...options, echo: true });
+    const onToast = vi.fn();
+    bus.on('toast', onToast);
+
+    bus.emit('toast', 'Saved');
+
+    expect(onToast).toHaveBeenCalledWith('Saved', bus.getId());
+    bus.destroy();
+  });
+
+  it('should stop calling removed handlers', async () => {
+    const a = new TabEventBus<AppEvents>('off', options);
+    const b = new TabEventBus<AppEvents>('off', options);
+    const onToast = vi.fn();
+    const off = b.on('toast', onToast);
+
+    off();
+    a.emit('toast', 'ignored');
+    await tick();
+
+    expect(onToast).not.toHaveBeenCalled();
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should not keep events in localStorage', () => {
+    const bus = new TabEventBus<AppEvents>('storage', { transport: (key) => new StorageEventTransport(key) });
+    const setItem = vi.spyOn(dom.window.Storage.prototype, 'setItem');
+
+    bus.emit('toast', 'Hello');
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(localStorage.length).toBe(0);
+    bus.destroy();
+  });
+
+  it('should receive events from the storage event', () => {
+    const bus = new TabEventBus<AppEvents>('storage', { transport: (key) => new StorageEventTransport(key) });
+    const onLogout = vi.fn();
+    bus.on('logout', onLogout);
+
+    window.dispatchEvent(new window.StorageEvent('storage', {
+      key: 'tss:storage#events#message',
+      newValue: JSON.stringify({ type: 'logout', payload: { reason: 'manual' }, from: 'other' })
+    }));
+
+    expect(onLogout).toHaveBeenCalledWith({ reason: 'manual' }, 'other');
+    bus.destroy();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabLeader, TabLeaderOptions } from '../TabLeader';
+import { MemoryTransport } from '../transports';
+import { createLockManager } from './webLocks';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const options: TabLeaderOptions = {
+  transport: (key: string) => new MemoryTransport(key),
+  heartbeatInterval: 100,
+  leaderTimeout: 300,
+  useWebLocks: false
+};
+
+describe('TabLeader', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete (global as any).navigator;
+    dom.window.close();
+  });
+
+  it('should elect a single tab as leader', async () => {
+    const a = new TabLeader('poller', options);
+    const b = new TabLeader('poller', options);
+    const onBecome = vi.fn();
+    a.onBecomeLeader(onBecome);
+    b.onBecomeLeader(onBecome);
+
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect([a.isLeader(), b.isLeader()].filter(Boolean)).toHaveLength(1);
+    expect(onBecome).toHaveBeenCalledTimes(1);
+    const leader = a.isLeader() ? a : b;
+    expect(a.getLeaderId()).toBe(leader.getId());
+    expect(b.getLeaderId()).toBe(leader.getId());
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should re-elect a leader when the leader is destroyed', async () => {
+    const a = new TabLeader('closing', options);
+    await vi.advanceTimersByTimeAsync(300);
+    expect(a.isLeader()).toBe(true);
+
+    const b = new TabLeader('closing', options);
+    await vi.advanceTimersByTimeAsync(300);
+    expect(b.isLeader()).toBe(false);
+
+    const onLose = vi.fn();
+    a.onLoseLeader(onLose);
+    a.destroy();
+    expect(onLose).toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(b.isLeader()).toBe(true);
+    b.destroy();
+  });
+
+  it('should replace a frozen leader after its lease expires', async () => {
+    const a = new TabLeader('frozen', options);
+    await vi.advanceTimersByTimeAsync(300);
+    const b = new TabLeader('frozen', options);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(a.isLeader()).toBe(true);
+
+    // Freeze a: its heartbeat stops and it receives no messages
+    const onLose = vi.fn();
+    a.onLoseLeader(onLose);
+    const transport = (a as any).sync.transport;
+    const handler = transport.handler;
+    transport.handler = null;
+    clearInterval((a as any).intervalId);
+    await vi.advanceTimersByTimeAsync(600);
+    expect(b.isLeader()).toBe(true);
+
+    // On resume, a notices that its lease expired before renewing it
+    transport.handler = handler;
+    (a as any).tick();
+    expect(a.isLeader()).toBe(false);
+    expect(onLose).toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(b.isLeader()).toBe(true);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should use Web Locks when available', async () => {
+    (global as any).navigator = { userAgent: 'node', locks: createLockManager() };
+    const a = new TabLeader('locked', { ...options, useWebLocks: true });
+    const b = new TabLeader('locked', { ...options, useWebLocks: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(a.isLeader()).toBe(true);
+    expect(b.isLeader()).toBe(false);
+
+    a.destroy();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(b.isLeader()).toBe(true);
+    b.destroy();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabRpc, TabRpcOptions } from '../TabRpc';
+import { TabStateSyncError } from '../errors';
+import { MemoryTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const options: TabRpcOptions = { transport: (key: string) => new MemoryTransport(key) };
+
+describe('TabRpc', () => {
+  let tabs: TabRpc[] = [];
+  const open = (extra: TabRpcOptions = {}) => {
+    const rpc = new TabRpc('app', { ...options, ...extra });
+    tabs.push(rpc);
+    return rpc;
+  };
+
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    tabs.forEach((rpc) => rpc.destroy());
+    tabs = [];
+    vi.useRealTimers();
+    dom.window.close();
+  });
+
+  it('should call a method in another tab and resolve with its result', async () => {
+    const caller = open();
+    const callee = open();
+    const handler = vi.fn(async ({ a, b }: { a: number; b: number }) => a + b);
+    callee.register('add', handler);
+
+    await expect(caller.call('add', { a: 1, b: 2 })).resolves.toBe(3);
+    expect(handler).toHaveBeenCalledWith({ a: 1, b: 2 }, caller.getId());
+  });
+
+  it('should only run the handler of the target tab', async () => {
+    const caller = open();
+    const leader = open({ id: 'leader' });
+    const other = open();
+    const onOther = vi.fn(() => 'other');
+    leader.register('refresh', () => 'token');
+    other.register('refresh', onOther);
+
+    await expect(caller.call('refresh', undefined, { target: 'leader' })).resolves.toBe('token');
+    expect(onOther).not.toHaveBeenCalled();
+  });
+
+  it('should reject with the error thrown by the remote handler', async () => {
+    const caller = open();
+    open().register('save', () => { throw new Error('Disk full'); });
+
+    const error = await caller.call('save').catch((err: TabStateSyncError) => err) as TabStateSyncError;
+
+    expect(error).toBeInstanceOf(TabStateSyncError);
+    expect(error.code).toBe('REMOTE');
+    expect(error.message).toBe('Disk full');
+  });
+
+  it('should reject calls to a target without the method', async () => {
+    const caller = open();
+    open({ id: 'target' });
+
+    await expect(caller.call('missing', undefined, { target: 'target' })).rejects.toMatchObject({ code: 'REMOTE' });
+  });
+
+  it('should reject when no tab answers in time', async () => {
+    vi.useFakeTimers();
+    const caller = open();
+    open();
+
+    const result = caller.call('nobody', undefined, { timeout: 100 });
+    const assertion = expect(result).rejects.toMatchObject({ code: 'TIMEOUT' });
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+  });
+
+  it('should use the first reply when several tabs answer', async () => {
+    const caller = open();
+    open().register('ping', () => 'first');
+    open().register('ping', () => new Promise((resolve) => setTimeout(() => resolve('second'), 10)));
+
+    await expect(caller.call('ping')).resolves.toBe('first');
+  });
+
+  it('should reject pending calls on destroy', async () => {
+    const caller = open();
+    open().register('slow', () => new Promise(() => {}));
+
+    const result = caller.call('slow');
+    caller.destroy();
+
+    await expect(result).rejects.toMatchObject({ code: 'CLOSED' });
+    await expect(caller.call('slow')).rejects.toMatchObject({ code: 'CLOSED' });
+  });
+});
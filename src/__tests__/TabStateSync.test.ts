@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { TabStateSync, TabStateSyncOptions } from '../TabStateSync';
+import { MemoryTransport } from '../transports';
+import { createLockManager } from './webLocks';
 
 import { JSDOM } from 'jsdom';
 
@@ -26,7 +28,7 @@ class MockBroadcastChannel {
   postMessage(data: any) {
     // Simulate async propagation to all other instances with the same key
     setTimeout(() => {
-      MockBroadcastChannel.channels[this.key].forEach((ch) => {
+      (MockBroadcastChannel.channels[this.key] ?? []).forEach((ch) => {
         if (ch !== this && ch.onmessage) {
           ch.onmessage({ data });
         }
@@ -44,6 +46,9 @@ class MockBroadcastChannel {
 
 describe('TabStateSync', () => {
   beforeEach(() => {
+    // Use the mock instead of Node's BroadcastChannel, and drop instances left by previous tests
+    (global as any).BroadcastChannel = MockBroadcastChannel;
+    MockBroadcastChannel.channels = {};
     dom = new JSDOM('', { url: 'http://localhost' });
     (global as any).window = dom.window;
     (global as any).localStorage = dom.window.localStorage;
@@ -114,6 +119,34 @@ describe('TabStateSync', () => {
     expect(cb2).toHaveBeenCalledWith('abc');
   });
 
+  it('should call selector subscriptions only when the selection changes', () => {
+    const sync = new TabStateSync<{ theme: string; count: number }>('selector', { transport: (key) => new MemoryTransport(key) });
+    const onTheme = vi.fn();
+    const unsubscribe = sync.subscribe((value) => value?.theme, onTheme);
+
+    sync.set({ theme: 'dark', count: 1 });
+    sync.set({ theme: 'dark', count: 2 });
+    sync.set({ theme: 'light', count: 2 });
+    unsubscribe();
+    sync.set({ theme: 'dark', count: 2 });
+
+    expect(onTheme.mock.calls).toEqual([['dark', undefined], ['light', 'dark']]);
+    sync.destroy();
+  });
+
+  it('should compare selections with a custom equality function', () => {
+    const sync = new TabStateSync<{ tags: string[] }>('selector-equality', { transport: (key) => new MemoryTransport(key) });
+    const onTags = vi.fn();
+    const sameTags = (a: string[], b: string[]) => a.join() === b.join();
+    sync.subscribe((value) => value?.tags ?? [], onTags, sameTags);
+
+    sync.set({ tags: ['a'] });
+    sync.set({ tags: ['a'] });
+
+    expect(onTags).toHaveBeenCalledTimes(1);
+    sync.destroy();
+  });
+
   it('should not call callbacks after destroy', async () => {
     window.BroadcastChannel = MockBroadcastChannel;
     const sync = new TabStateSync<string>('test');
@@ -170,6 +203,377 @@ describe('TabStateSync', () => {
     expect(cb).not.toHaveBeenCalled();
   });
   
+  it('should return the current value with get()', () => {
+    window.BroadcastChannel = MockBroadcastChannel;
+    const sync = new TabStateSync<string>('get-value');
+    expect(sync.get()).toBeUndefined();
+    sync.set('abc');
+    expect(sync.get()).toBe('abc');
+    sync.destroy();
+  });
+
+  it('should hydrate from localStorage on creation', () => {
+    delete window.BroadcastChannel;
+    localStorage.setItem('tss:hydrate', JSON.stringify({ value: 'stored', ts: Date.now(), v: 1 }));
+    const sync = new TabStateSync<string>('hydrate');
+    expect(sync.get()).toBe('stored');
+    sync.destroy();
+  });
+
+  it('should hydrate from other tabs over BroadcastChannel', async () => {
+    window.BroadcastChannel = MockBroadcastChannel;
+    const existing = new TabStateSync<string>('hydrate-bc');
+    existing.set('shared');
+    const fresh = new TabStateSync<string>('hydrate-bc');
+    const cb = vi.fn();
+    fresh.subscribe(cb);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(fresh.get()).toBe('shared');
+    expect(cb).toHaveBeenCalledWith('shared');
+    existing.destroy();
+    fresh.destroy();
+  });
+  
+  it('should converge on the same value for concurrent writes (last-writer-wins)', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const a = new TabStateSync<string>('lww', { transport });
+    const b = new TabStateSync<string>('lww', { transport });
+
+    a.set('from-a');
+    b.set('from-b');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(a.get()).toBe(b.get());
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should keep the earliest of concurrent writes (first-writer-wins)', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const options: TabStateSyncOptions<string> = { transport, conflictResolution: 'first-writer-wins' };
+    const a = new TabStateSync<string>('fww', options);
+    const b = new TabStateSync<string>('fww', options);
+    const now = vi.spyOn(Date, 'now');
+
+    now.mockReturnValue(1000);
+    b.set('first');
+    now.mockReturnValue(2000);
+    a.set('second');
+    now.mockRestore();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(a.get()).toBe('first');
+    expect(b.get()).toBe('first');
+
+    // A write made after seeing the current value is not concurrent and applies
+    a.set('third');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(b.get()).toBe('third');
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should merge concurrent writes with a custom resolver', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const union = (local: string[], remote: string[]) => Array.from(new Set([...local, ...remote])).sort();
+    const a = new TabStateSync<string[]>('merge', { transport, conflictResolution: union });
+    const b = new TabStateSync<string[]>('merge', { transport, conflictResolution: union });
+
+    a.set(['x']);
+    b.set(['y']);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(a.get()).toEqual(['x', 'y']);
+    expect(b.get()).toEqual(['x', 'y']);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should ignore stale writes from tabs that had not seen the current value', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const a = new TabStateSync<number>('stale', { transport });
+    const b = new TabStateSync<number>('stale', { transport });
+    a.set(1);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    a.set(2);
+    a.set(3);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(b.get()).toBe(3);
+    a.destroy();
+    b.destroy();
+  });
+  
+  it('should send only a JSON Patch on update', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const a = new TabStateSync<{ items: string[]; total: number }>('cart', { transport });
+    const b = new TabStateSync<{ items: string[]; total: number }>('cart', { transport });
+    a.set({ items: ['apple'], total: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const spy = vi.spyOn(MemoryTransport.prototype, 'send');
+    a.update((cart) => ({ items: [...cart!.items, 'pear'], total: 2 }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(b.get()).toEqual({ items: ['apple', 'pear'], total: 2 });
+    expect(spy).toHaveBeenCalledWith(expect.any(String), { retain: false });
+    const sent = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(sent).toMatchObject({
+      type: 'patch',
+      ops: [
+        { op: 'add', path: '/items/1', value: 'pear' },
+        { op: 'replace', path: '/total', value: 2 }
+      ]
+    });
+    expect(sent).not.toHaveProperty('value');
+    spy.mockRestore();
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should apply a JSON Patch passed to update', () => {
+    delete window.BroadcastChannel;
+    const sync = new TabStateSync<{ theme: string }>('patch-local');
+    const cb = vi.fn();
+    sync.subscribe(cb);
+    sync.set({ theme: 'light' });
+    sync.update([{ op: 'replace', path: '/theme', value: 'dark' }]);
+
+    expect(cb).toHaveBeenLastCalledWith({ theme: 'dark' });
+    // Storage-based transports always store the full value
+    expect(JSON.parse(localStorage.getItem('tss:patch-local')!).value).toEqual({ theme: 'dark' });
+    sync.destroy();
+  });
+
+  it('should request the full value after missing a patch', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const a = new TabStateSync<{ n: number }>('gap', { transport });
+    const b = new TabStateSync<{ n: number }>('gap', { transport });
+    a.set({ n: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    // Simulate b missing an update by detaching its handler for one message
+    const bTransport = (b as any).transport;
+    const handler = bTransport.handler;
+    bTransport.handler = null;
+    a.update((value) => ({ n: value!.n + 1 }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    bTransport.handler = handler;
+
+    a.update((value) => ({ n: value!.n + 1 }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(b.get()).toEqual({ n: 3 });
+    a.destroy();
+    b.destroy();
+  });
+
+  describe('resync', () => {
+    beforeEach(() => {
+      (global as any).document = dom.window.document;
+    });
+
+    afterEach(() => {
+      delete (global as any).document;
+    });
+
+    it('should ask the other tabs for missed writes when the page resumes', async () => {
+      const transport = (key: string) => new MemoryTransport(key);
+      const onGap = vi.fn();
+      const a = new TabStateSync<number>('frozen', { transport });
+      const b = new TabStateSync<number>('frozen', { transport, resync: { onGap } });
+      a.set(1);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Simulate b being frozen by detaching its handler
+      const bTransport = (b as any).transport;
+      const handler = bTransport.handler;
+      bTransport.handler = null;
+      a.set(2);
+      a.set(3);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      bTransport.handler = handler;
+      expect(b.get()).toBe(1);
+
+      document.dispatchEvent(new dom.window.Event('resume'));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(b.get()).toBe(3);
+      expect(onGap).toHaveBeenCalledTimes(1);
+      expect(onGap).toHaveBeenCalledWith({ from: 1, to: 3, source: 'peer' });
+      a.destroy();
+      b.destroy();
+    });
+
+    it('should only report gaps in replies to the resync', async () => {
+      const transport = (key: string) => new MemoryTransport(key);
+      const onGap = vi.fn();
+      const a = new TabStateSync<number>('gap-once', { transport });
+      const b = new TabStateSync<number>('gap-once', { transport, resync: { onGap } });
+      a.set(1);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      document.dispatchEvent(new dom.window.Event('resume'));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Later, b misses a write, then sees the answer to the hydrate request of a new tab
+      const now = Date.now();
+      const clock = vi.spyOn(Date, 'now').mockImplementation(() => now + 5000);
+      const bTransport = (b as any).transport;
+      const handler = bTransport.handler;
+      bTransport.handler = null;
+      a.set(2);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      bTransport.handler = handler;
+      const c = new TabStateSync<number>('gap-once', { transport });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(b.get()).toBe(2);
+      expect(onGap).not.toHaveBeenCalled();
+      clock.mockRestore();
+      a.destroy();
+      b.destroy();
+      c.destroy();
+    });
+
+    it('should read the stored value again when restored from the back/forward cache', () => {
+      delete window.BroadcastChannel;
+      const onGap = vi.fn();
+      const a = new TabStateSync<string>('cached');
+      const b = new TabStateSync<string>('cached', { resync: { onGap } });
+      // JSDOM does not fire storage events for the page that wrote, so b misses it
+      a.set('new');
+      expect(b.get()).toBeUndefined();
+
+      window.dispatchEvent(new dom.window.Event('pageshow'));
+      expect(b.get()).toBeUndefined();
+
+      window.dispatchEvent(Object.assign(new dom.window.Event('pageshow'), { persisted: true }));
+      expect(b.get()).toBe('new');
+      expect(onGap).toHaveBeenCalledWith({ from: 0, to: 1, source: 'storage' });
+      a.destroy();
+      b.destroy();
+    });
+
+    it('should not report a gap when nothing was missed, nor listen once destroyed', async () => {
+      const transport = (key: string) => new MemoryTransport(key);
+      const onGap = vi.fn();
+      const a = new TabStateSync<number>('visible', { transport });
+      const b = new TabStateSync<number>('visible', { transport, resync: { onGap } });
+      a.set(1);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const send = vi.spyOn(MemoryTransport.prototype, 'send');
+
+      Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+      document.dispatchEvent(new dom.window.Event('visibilitychange'));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(b.get()).toBe(1);
+      expect(onGap).not.toHaveBeenCalled();
+      expect(send).toHaveBeenCalledWith(expect.stringContaining('hydrate-request'), { retain: false });
+
+      send.mockClear();
+      b.destroy();
+      document.dispatchEvent(new dom.window.Event('resume'));
+      expect(send).not.toHaveBeenCalled();
+      send.mockRestore();
+      a.destroy();
+    });
+  });
+
+  it('should not lose concurrent locked updates from different tabs', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const a = new TabStateSync<number>('locked-counter', { transport });
+    const b = new TabStateSync<number>('locked-counter', { transport });
+    const increment = (n: number | undefined) => (n ?? 0) + 1;
+
+    await Promise.all([
+      a.update(increment, { lock: true }),
+      b.update(increment, { lock: true }),
+      a.update(increment, { lock: true }),
+      b.update(increment, { lock: true })
+    ]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(a.get()).toBe(4);
+    expect(b.get()).toBe(4);
+    a.destroy();
+    b.destroy();
+  });
+
+  describe('locked updates with a slow transport', () => {
+    /**
+     * Transport delivering in a later task, after the lock may already be granted to the next tab
+     */
+    class SlowTransport extends MemoryTransport {
+      send(data: unknown): void {
+        setTimeout(() => super.send(data), 50);
+      }
+    }
+
+    afterEach(() => {
+      delete (global as any).navigator;
+    });
+
+    it('should pass the latest value to the next holder of the lock', async () => {
+      (global as any).navigator = { locks: createLockManager() };
+      const transport = (name: string) => new SlowTransport(name);
+      const a = new TabStateSync<number>('slow-lock', { transport });
+      const b = new TabStateSync<number>('slow-lock', { transport });
+      const increment = (n: number | undefined) => (n ?? 0) + 1;
+
+      await Promise.all([
+        a.update(increment, { lock: true }),
+        b.update(increment, { lock: true }),
+        a.update(increment, { lock: true }),
+        b.update(increment, { lock: true })
+      ]);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(a.get()).toBe(4);
+      expect(b.get()).toBe(4);
+      a.destroy();
+      b.destroy();
+    });
+
+    it('should not hand a value over to a later session', async () => {
+      (global as any).navigator = { locks: createLockManager() };
+      const transport = (name: string) => new SlowTransport(name);
+      const increment = (n: number | undefined) => (n ?? 0) + 1;
+      const first = new TabStateSync<number>('lock-sessions', { transport });
+      for (let i = 0; i < 3; i++) {
+        await first.update(increment, { lock: true });
+      }
+      first.destroy();
+
+      // The next session starts once every tab of the first one is closed
+      const now = Date.now();
+      const clock = vi.spyOn(Date, 'now').mockImplementation(() => now + 60000);
+      const second = new TabStateSync<number>('lock-sessions', { transport });
+      second.set(100);
+      await second.update(increment, { lock: true });
+
+      expect(second.get()).toBe(101);
+      second.destroy();
+      clock.mockRestore();
+    });
+  });
+
+  it('should read the stored value before a locked update', async () => {
+    delete window.BroadcastChannel;
+    const a = new TabStateSync<number>('locked-stored');
+    const b = new TabStateSync<number>('locked-stored');
+    a.set(5);
+    // JSDOM does not fire storage events for the page that wrote, so b only sees the stored value
+
+    await b.update((n) => (n ?? 0) + 1, { lock: true });
+
+    expect(b.get()).toBe(6);
+    expect(JSON.parse(localStorage.getItem('tss:locked-stored')!).value).toBe(6);
+    a.destroy();
+    b.destroy();
+  });
+
   // New tests for security features
   
   it('should apply namespace to localStorage key', () => {
@@ -184,7 +588,7 @@ describe('TabStateSync', () => {
     expect(localStorage.getItem('tss:test')).toBeNull(); // Should not use default namespace
   });
   
-  it('should encrypt and decrypt data correctly', () => {
+  it('should encrypt and decrypt data correctly', async () => {
     delete window.BroadcastChannel;
     const spy = vi.spyOn(console, 'error');
     
@@ -198,6 +602,7 @@ describe('TabStateSync', () => {
     const cb = vi.fn();
     sync.subscribe(cb);
     sync.set('secret-data');
+    await sync.flush();
     
     // Get the encrypted value from localStorage
     const encryptedValue = localStorage.getItem('tss:test');
@@ -220,6 +625,7 @@ describe('TabStateSync', () => {
       key: 'tss:test', 
       newValue: encryptedValue
     }));
+    await sync2.flush();
     
     // The second instance should be able to decrypt and process
     expect(cb2).toHaveBeenCalledWith('secret-data');
@@ -229,6 +635,123 @@ describe('TabStateSync', () => {
     sync2.destroy();
     spy.mockRestore();
   });
+
+  it('should encrypt values with non-Latin1 characters', async () => {
+    delete window.BroadcastChannel;
+    const sync = new TabStateSync<string>('unicode', { enableEncryption: true, encryptionKey: 'k' });
+    sync.set('olá 世界 🚀');
+    await sync.flush();
+
+    const sync2 = new TabStateSync<string>('unicode', { enableEncryption: true, encryptionKey: 'k' });
+    await sync2.flush();
+    expect(sync2.get()).toBe('olá 世界 🚀');
+    sync.destroy();
+    sync2.destroy();
+  });
+
+  it('should reject tampered encrypted payloads', async () => {
+    delete window.BroadcastChannel;
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sync = new TabStateSync<string>('tamper', { enableEncryption: true, encryptionKey: 'k', debug: true });
+    sync.set('original');
+    await sync.flush();
+
+    // Flip one character of the ciphertext
+    const encrypted = localStorage.getItem('tss:tamper')!;
+    const index = 'aesgcm1:'.length + 20;
+    const replacement = encrypted.charAt(index) === 'A' ? 'B' : 'A';
+    const tampered = encrypted.slice(0, index) + replacement + encrypted.slice(index + 1);
+
+    const cb = vi.fn();
+    sync.subscribe(cb);
+    window.dispatchEvent(new window.StorageEvent('storage', { key: 'tss:tamper', newValue: tampered }));
+    await sync.flush();
+
+    expect(cb).not.toHaveBeenCalled();
+    expect(spy.mock.calls.some(([message]) => String(message).includes('Decryption error'))).toBe(true);
+    sync.destroy();
+    spy.mockRestore();
+  });
+
+  it('should migrate data stored with the legacy XOR cipher', async () => {
+    delete window.BroadcastChannel;
+    const key = 'legacy-key';
+    const json = JSON.stringify({ value: 'old', ts: Date.now(), v: 1 });
+    let xored = '';
+    for (let i = 0; i < json.length; i++) {
+      xored += String.fromCharCode(json.charCodeAt(i) ^ key.charCodeAt(i % key.length));
+    }
+    localStorage.setItem('tss:legacy', btoa(xored));
+
+    const sync = new TabStateSync<string>('legacy', { enableEncryption: true, encryptionKey: key });
+    await sync.flush();
+
+    expect(sync.get()).toBe('old');
+    expect(localStorage.getItem('tss:legacy')).toMatch(/^aesgcm1:/);
+    sync.destroy();
+  });
+
+  it('should reject legacy XOR payloads received from other tabs', async () => {
+    delete window.BroadcastChannel;
+    const key = 'legacy-key';
+    const json = JSON.stringify({ value: 'forged', ts: Date.now(), v: 1 });
+    let xored = '';
+    for (let i = 0; i < json.length; i++) {
+      xored += String.fromCharCode(json.charCodeAt(i) ^ key.charCodeAt(i % key.length));
+    }
+    const onError = vi.fn();
+    const sync = new TabStateSync<string>('legacy-message', { enableEncryption: true, encryptionKey: key, onError });
+    const cb = vi.fn();
+    sync.subscribe(cb);
+
+    window.dispatchEvent(new window.StorageEvent('storage', { key: 'tss:legacy-message', newValue: btoa(xored) }));
+    await sync.flush();
+
+    expect(cb).not.toHaveBeenCalled();
+    expect(onError.mock.calls[0][0]).toMatchObject({ code: 'DECRYPT' });
+    sync.destroy();
+  });
+
+  it('should encrypt BroadcastChannel messages', async () => {
+    window.BroadcastChannel = MockBroadcastChannel;
+    const sender = new TabStateSync<string>('enc-bc', { enableEncryption: true, encryptionKey: 'k' });
+    const receiver = new TabStateSync<string>('enc-bc', { enableEncryption: true, encryptionKey: 'k' });
+    const spy = vi.fn();
+    const raw = new BroadcastChannel('enc-bc');
+    raw.onmessage = (event) => spy(event.data);
+    const cb = vi.fn();
+    receiver.subscribe(cb);
+
+    sender.set('top-secret');
+    await sender.flush();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await receiver.flush();
+
+    expect(cb).toHaveBeenCalledWith('top-secret');
+    expect(spy.mock.calls.every(([data]) => typeof data === 'string' && !data.includes('top-secret'))).toBe(true);
+    raw.close();
+    sender.destroy();
+    receiver.destroy();
+  });
+
+  it('should report ENCRYPT and stay in this page without WebCrypto', async () => {
+    delete window.BroadcastChannel;
+    vi.stubGlobal('crypto', {});
+    const onError = vi.fn();
+    let sync!: TabStateSync<string>;
+    expect(() => {
+      sync = new TabStateSync<string>('no-webcrypto', { enableEncryption: true, encryptionKey: 'k', persist: 'local', onError });
+    }).not.toThrow();
+
+    sync.set('secret');
+    await sync.flush();
+
+    expect(onError.mock.calls[0][0]).toMatchObject({ code: 'ENCRYPT' });
+    expect(sync.get()).toBe('secret');
+    expect(localStorage.length).toBe(0);
+    sync.destroy();
+    vi.unstubAllGlobals();
+  });
   
   it('should log errors when debug is enabled', () => {
     delete window.BroadcastChannel;
@@ -262,4 +785,195 @@ describe('TabStateSync', () => {
     // Cleanup
     sync.destroy();
   });
-}); 
\ No newline at end of file
+
+  it('should reject values failing the validate option', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const isString = (value: unknown): value is string => typeof value === 'string';
+    const onError = vi.fn();
+    const a = new TabStateSync<any>('guarded', { transport });
+    const b = new TabStateSync<string>('guarded', { transport, validate: isString, onError });
+    const cb = vi.fn();
+    b.subscribe(cb);
+
+    a.set(42);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(cb).not.toHaveBeenCalled();
+    expect(b.get()).toBeUndefined();
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+
+    a.set('valid');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(cb).toHaveBeenCalledWith('valid');
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should validate values with a Standard Schema', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    // Same shape as the schemas of zod or valibot, trimming strings
+    const schema = {
+      '~standard': {
+        version: 1 as const,
+        vendor: 'test',
+        validate: (value: unknown) => typeof value === 'string'
+          ? { value: value.trim() }
+          : { issues: [{ message: 'Expected a string' }] }
+      }
+    };
+    const onError = vi.fn();
+    const a = new TabStateSync<any>('schema', { transport });
+    const b = new TabStateSync<string>('schema', { transport, schema, onError });
+
+    a.set({ not: 'a string' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(b.get()).toBeUndefined();
+    expect(onError.mock.calls[0][0].message).toContain('Expected a string');
+
+    a.set('  padded  ');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(b.get()).toBe('padded');
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should support asynchronous schemas', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const schema = {
+      '~standard': {
+        version: 1 as const,
+        vendor: 'test',
+        validate: async (value: unknown) => typeof value === 'number'
+          ? { value }
+          : { issues: [{ message: 'Expected a number' }] }
+      }
+    };
+    const a = new TabStateSync<any>('async-schema', { transport });
+    const b = new TabStateSync<number>('async-schema', { transport, schema });
+
+    a.set('nope');
+    a.set(7);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await b.flush();
+    expect(b.get()).toBe(7);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should validate hydrated values from localStorage', () => {
+    delete window.BroadcastChannel;
+    localStorage.setItem('tss:stored', JSON.stringify({ value: 'not-a-number', ts: Date.now(), v: 1 }));
+    const onError = vi.fn();
+    const sync = new TabStateSync<number>('stored', {
+      validate: (value): value is number => typeof value === 'number',
+      onError
+    });
+
+    expect(sync.get()).toBeUndefined();
+    expect(onError).toHaveBeenCalledTimes(1);
+    sync.destroy();
+  });
+
+  it('should validate the result of patches', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    type Cart = { total: number };
+    const validate = (value: unknown): value is Cart => typeof (value as Cart)?.total === 'number';
+    const onError = vi.fn();
+    const a = new TabStateSync<any>('patched', { transport });
+    const b = new TabStateSync<Cart>('patched', { transport, validate, onError });
+    a.set({ total: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    a.update([{ op: 'replace', path: '/total', value: 'one' }]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(b.get()).toEqual({ total: 1 });
+    expect(onError).toHaveBeenCalledTimes(1);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should report malformed messages to onError', () => {
+    delete window.BroadcastChannel;
+    const onError = vi.fn();
+    const sync = new TabStateSync<string>('malformed', { onError });
+
+    window.dispatchEvent(new window.StorageEvent('storage', { key: 'tss:malformed', newValue: '{"no":"stamp"}' }));
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+    sync.destroy();
+  });
+
+  it('should migrate values written with older versions', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const migrations = {
+      2: (value: { name: string }) => ({ fullName: value.name }),
+      3: (value: { fullName: string }) => ({ ...value, age: 0 })
+    };
+    const oldTab = new TabStateSync<{ name: string }>('user', { transport });
+    const newTab = new TabStateSync<{ fullName: string; age: number }>('user', { transport, version: 3, migrations });
+
+    oldTab.set({ name: 'Ana' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(newTab.get()).toEqual({ fullName: 'Ana', age: 0 });
+    oldTab.destroy();
+    newTab.destroy();
+  });
+
+  it('should migrate stale values from localStorage', () => {
+    delete window.BroadcastChannel;
+    localStorage.setItem('tss:stale', JSON.stringify({ value: 'dark', ts: Date.now(), v: 1 }));
+    const sync = new TabStateSync<{ theme: string }>('stale', {
+      version: 2,
+      migrations: { 2: (theme: string) => ({ theme }) }
+    });
+
+    expect(sync.get()).toEqual({ theme: 'dark' });
+    sync.destroy();
+  });
+
+  it('should ignore values from newer versions and call onVersionMismatch', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const onVersionMismatch = vi.fn();
+    const oldTab = new TabStateSync<string>('versioned', { transport, onVersionMismatch });
+    const newTab = new TabStateSync<string>('versioned', { transport, version: 2 });
+
+    newTab.set('v2 value');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(oldTab.get()).toBeUndefined();
+    expect(onVersionMismatch).toHaveBeenCalledWith(2, 1);
+    oldTab.destroy();
+    newTab.destroy();
+  });
+
+  it('should report newer versions to onError without onVersionMismatch', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const onError = vi.fn();
+    const oldTab = new TabStateSync<string>('versioned-error', { transport, onError });
+    const newTab = new TabStateSync<string>('versioned-error', { transport, version: 2 });
+
+    newTab.set('v2 value');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(oldTab.get()).toBeUndefined();
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+    oldTab.destroy();
+    newTab.destroy();
+  });
+
+  it('should reject values whose migration throws', () => {
+    delete window.BroadcastChannel;
+    localStorage.setItem('tss:broken', JSON.stringify({ value: null, ts: Date.now(), v: 1 }));
+    const onError = vi.fn();
+    const sync = new TabStateSync<string>('broken', {
+      version: 2,
+      migrations: { 2: (value: string) => value.toUpperCase() },
+      onError
+    });
+
+    expect(sync.get()).toBeUndefined();
+    expect(onError).toHaveBeenCalledTimes(1);
+    sync.destroy();
+  });
+});
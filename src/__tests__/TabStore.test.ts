@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabStore, TabStoreOptions } from '../TabStore';
+import { MemoryTransport, Transport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const defaults = { theme: 'light', fontSize: 14, tags: [] as string[] };
+
+describe('TabStore', () => {
+  const options: TabStoreOptions<typeof defaults> = { name: 'settings', transport: (key) => new MemoryTransport(key) };
+
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should return defaults for keys never written', () => {
+    const store = new TabStore(defaults, options);
+    expect(store.get('theme')).toBe('light');
+    expect(store.getAll()).toEqual(defaults);
+    store.destroy();
+  });
+
+  it('should sync keys between tabs over a single transport', async () => {
+    const created: string[] = [];
+    const transport = (key: string) => {
+      created.push(key);
+      return new MemoryTransport(key);
+    };
+    const a = new TabStore(defaults, { ...options, transport });
+    const b = new TabStore(defaults, { ...options, transport });
+
+    a.set('theme', 'dark');
+    a.set('fontSize', 16);
+    await tick();
+
+    expect(b.get('theme')).toBe('dark');
+    expect(b.get('fontSize')).toBe(16);
+    expect(created).toEqual(['tss:settings', 'tss:settings']);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should only call subscribers of keys that changed', async () => {
+    const a = new TabStore(defaults, options);
+    const b = new TabStore(defaults, options);
+    const onTheme = vi.fn();
+    const onFontSize = vi.fn();
+    b.subscribe('theme', onTheme);
+    const unsubscribe = b.subscribe('fontSize', onFontSize);
+
+    a.set('theme', 'dark');
+    await tick();
+    expect(onTheme).toHaveBeenCalledWith('dark');
+    expect(onFontSize).not.toHaveBeenCalled();
+
+    unsubscribe();
+    a.set('fontSize', 20);
+    await tick();
+    expect(onFontSize).not.toHaveBeenCalled();
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should send only the changed keys', () => {
+    const sent: unknown[] = [];
+    const transport: Transport = {
+      send: (data) => { sent.push(JSON.parse(data as string)); },
+      onMessage: () => {},
+      close: () => {}
+    };
+    const store = new TabStore(defaults, { transport });
+    store.set('theme', 'dark');
+    store.set('tags', ['a']);
+
+    expect(sent[sent.length - 1]).toMatchObject({
+      type: 'patch',
+      ops: [{ op: 'add', path: '/tags', value: { value: ['a'], clock: 2 } }]
+    });
+    store.destroy();
+  });
+
+  it('should keep concurrent writes to different keys from two tabs', async () => {
+    const a = new TabStore(defaults, { ...options, name: 'concurrent' });
+    const b = new TabStore(defaults, { ...options, name: 'concurrent' });
+    a.set('theme', 'x');
+    await tick();
+
+    a.set('theme', 'dark');
+    b.set('fontSize', 20);
+    await tick();
+    await tick();
+
+    expect(a.getAll()).toEqual({ theme: 'dark', fontSize: 20, tags: [] });
+    expect(b.getAll()).toEqual({ theme: 'dark', fontSize: 20, tags: [] });
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should resolve concurrent writes to the same key the same way in every tab', async () => {
+    const a = new TabStore(defaults, { ...options, name: 'same-key' });
+    const b = new TabStore(defaults, { ...options, name: 'same-key' });
+
+    a.set('theme', 'dark');
+    b.set('theme', 'blue');
+    await tick();
+    await tick();
+
+    expect(a.get('theme')).toBe(b.get('theme'));
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should check the record of values with validate', async () => {
+    const onError = vi.fn();
+    const validate = (value: unknown): value is Partial<typeof defaults> =>
+      typeof (value as Partial<typeof defaults>).fontSize !== 'string';
+    const a = new TabStore<Record<string, unknown>>(defaults, { ...options, name: 'validated' });
+    const b = new TabStore(defaults, { ...options, name: 'validated', validate, onError });
+
+    a.set('fontSize', 'huge');
+    await tick();
+
+    expect(b.get('fontSize')).toBe(14);
+    expect(onError.mock.calls[0][0]).toMatchObject({ code: 'VALIDATION' });
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should batch writes made in a transaction', async () => {
+    const a = new TabStore(defaults, options);
+    const b = new TabStore(defaults, options);
+    const send = vi.spyOn((a as any).sync, 'update');
+    const onTheme = vi.fn();
+    a.subscribe('theme', onTheme);
+
+    a.transaction(() => {
+      a.set('theme', 'dark');
+      a.set('theme', 'blue');
+      a.transaction(() => a.set('fontSize', 18));
+      expect(a.get('theme')).toBe('blue');
+    });
+    await tick();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(onTheme.mock.calls).toEqual([['blue']]);
+    expect(b.getAll()).toEqual({ theme: 'blue', fontSize: 18, tags: [] });
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should discard the writes of a transaction that throws', () => {
+    const store = new TabStore(defaults, options);
+    expect(() => store.transaction(() => {
+      store.set('theme', 'dark');
+      throw new Error('abort');
+    })).toThrow('abort');
+
+    expect(store.get('theme')).toBe('light');
+    store.destroy();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { compress, decompress, isCompressed, lzwCompress, lzwDecompress } from '../compression';
+import { TabStateSync } from '../TabStateSync';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const largeValue = {
+  items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: `Item ${i}`, tags: ['alpha', 'beta'] }))
+};
+
+describe('compression', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip text with LZW', () => {
+    const samples = ['', 'a', 'abababababab', JSON.stringify(largeValue), 'émoji 🎉 and 中文 text '.repeat(50)];
+    samples.forEach((text) => {
+      expect(lzwDecompress(lzwCompress(text))).toBe(text);
+    });
+  });
+
+  it('should restart the LZW dictionary when all codes are used', () => {
+    let text = '';
+    let seed = 1;
+    for (let i = 0; i < 200000; i++) {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      text += String.fromCharCode(97 + (seed % 26));
+    }
+    expect(lzwDecompress(lzwCompress(text))).toBe(text);
+  });
+
+  it('should compress with CompressionStream when available', async () => {
+    const text = JSON.stringify(largeValue);
+    const compressed = await compress(text);
+
+    expect(compressed.startsWith('deflate1:')).toBe(true);
+    expect(compressed.length).toBeLessThan(text.length);
+    expect(await decompress(compressed)).toBe(text);
+  });
+
+  it('should fall back to LZW without CompressionStream', async () => {
+    vi.stubGlobal('CompressionStream', undefined);
+    const text = JSON.stringify(largeValue);
+    const compressed = await compress(text);
+
+    expect(compressed.startsWith('lzw1:')).toBe(true);
+    expect(decompress(compressed)).toBe(text);
+  });
+
+  it('should keep payloads that do not get shorter', async () => {
+    expect(await compress('{"a":1}')).toBe('{"a":1}');
+    expect(isCompressed('{"a":1}')).toBe(false);
+  });
+});
+
+describe('compression option', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    dom.window.close();
+  });
+
+  it('should compress large values stored in localStorage', async () => {
+    const writer = new TabStateSync('big', { compression: true });
+    writer.set(largeValue);
+    await writer.flush();
+
+    const stored = localStorage.getItem('tss:big')!;
+    expect(stored.startsWith('deflate1:')).toBe(true);
+    expect(stored.length).toBeLessThan(JSON.stringify(largeValue).length);
+
+    // A tab without the option still reads it
+    const reader = new TabStateSync('big');
+    await reader.flush();
+    expect(reader.get()).toEqual(largeValue);
+    writer.destroy();
+    reader.destroy();
+  });
+
+  it('should not compress values below the threshold', async () => {
+    const sync = new TabStateSync('small', { compression: { threshold: 100000 } });
+    sync.set(largeValue);
+    await sync.flush();
+
+    expect(localStorage.getItem('tss:small')!.startsWith('{')).toBe(true);
+    sync.destroy();
+  });
+
+  it('should deliver LZW-compressed values synchronously', () => {
+    vi.stubGlobal('CompressionStream', undefined);
+    const receiver = new TabStateSync('lzw');
+    const cb = vi.fn();
+    receiver.subscribe(cb);
+
+    const message = JSON.stringify({ type: 'value', value: largeValue, ts: Date.now(), v: 1, clock: 1, tab: 'other' });
+    window.dispatchEvent(new window.StorageEvent('storage', { key: 'tss:lzw', newValue: 'lzw1:' + lzwCompress(message) }));
+
+    expect(cb).toHaveBeenCalledWith(largeValue);
+    receiver.destroy();
+  });
+
+  it('should compress before encrypting', async () => {
+    const options = { compression: true, enableEncryption: true, encryptionKey: 'secret' };
+    const writer = new TabStateSync('secret-big', options);
+    writer.set(largeValue);
+    await writer.flush();
+
+    const stored = localStorage.getItem('tss:secret-big')!;
+    expect(stored.startsWith('aesgcm1:')).toBe(true);
+    expect(stored.length).toBeLessThan(JSON.stringify(largeValue).length);
+    const reader = new TabStateSync('secret-big', options);
+    await reader.flush();
+    expect(reader.get()).toEqual(largeValue);
+    writer.destroy();
+    reader.destroy();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabStateSyncError } from '../errors';
+import { TabStateSync } from '../TabStateSync';
+import { MemoryTransport, StorageEventTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+function domException(name: string): Error {
+  return new dom.window.DOMException('Storage failure', name);
+}
+
+describe('error handling', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    dom.window.close();
+  });
+
+  it('should report values the serializer cannot handle instead of throwing', async () => {
+    const onError = vi.fn();
+    const cb = vi.fn();
+    const transport = (key: string) => new MemoryTransport(key);
+    const sync = new TabStateSync<{ n: unknown }>('bigint', { transport, onError });
+    sync.subscribe(cb);
+
+    expect(() => sync.set({ n: BigInt(1) })).not.toThrow();
+    expect(cb).toHaveBeenCalledWith({ n: BigInt(1) });
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(TabStateSyncError);
+    expect(onError.mock.calls[0][0].code).toBe('SERIALIZE');
+
+    // Same error while earlier work is still pending
+    const encrypted = new TabStateSync<{ n: unknown }>('bigint-pending', { transport, onError, enableEncryption: true, encryptionKey: 'k' });
+    encrypted.set({ n: 1 });
+    encrypted.set({ n: BigInt(2) });
+    await encrypted.flush();
+    expect(onError.mock.calls[1][0].code).toBe('SERIALIZE');
+    sync.destroy();
+    encrypted.destroy();
+  });
+
+  it('should report a full storage instead of throwing', () => {
+    const onError = vi.fn();
+    const sync = new TabStateSync<string>('quota', { onError });
+    vi.spyOn(dom.window.Storage.prototype, 'setItem').mockImplementation(() => {
+      throw domException('QuotaExceededError');
+    });
+
+    expect(() => sync.set('too big')).not.toThrow();
+    expect(sync.get()).toBe('too big');
+    expect(onError).toHaveBeenCalledTimes(1);
+    const error = onError.mock.calls[0][0];
+    expect(error).toBeInstanceOf(TabStateSyncError);
+    expect(error.code).toBe('QUOTA');
+    expect(error.cause.name).toBe('QuotaExceededError');
+    sync.destroy();
+  });
+
+  it('should fall back to in-memory mode when the transport fails', () => {
+    const onError = vi.fn();
+    const sync = new TabStateSync<string>('disabled', { onError });
+    const setItem = vi.spyOn(dom.window.Storage.prototype, 'setItem').mockImplementation(() => {
+      throw domException('SecurityError');
+    });
+
+    sync.set('first');
+    sync.set('second');
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].code).toBe('TRANSPORT');
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect((sync as any).transport).toBeInstanceOf(MemoryTransport);
+    expect(sync.get()).toBe('second');
+    sync.destroy();
+  });
+
+  it('should use localStorage when BroadcastChannel cannot be created', () => {
+    const Blocked = class {
+      constructor() {
+        throw domException('SecurityError');
+      }
+    };
+    (dom.window as any).BroadcastChannel = Blocked;
+    vi.stubGlobal('BroadcastChannel', Blocked);
+    const onError = vi.fn();
+    const sync = new TabStateSync<string>('sandboxed', { onError });
+
+    expect((sync as any).transport).toBeInstanceOf(StorageEventTransport);
+    expect(onError).not.toHaveBeenCalled();
+    sync.destroy();
+  });
+
+  it('should work in memory when no transport is available', () => {
+    vi.spyOn(dom.window.Storage.prototype, 'getItem').mockImplementation(() => {
+      throw domException('SecurityError');
+    });
+    const onError = vi.fn();
+    let sync: TabStateSync<string> | undefined;
+
+    expect(() => { sync = new TabStateSync<string>('no-storage', { onError }); }).not.toThrow();
+    expect(onError.mock.calls[0][0].code).toBe('TRANSPORT');
+    sync!.set('local');
+    expect(sync!.get()).toBe('local');
+    sync!.destroy();
+  });
+
+  it('should report a transport factory that throws', () => {
+    const onError = vi.fn();
+    const sync = new TabStateSync<string>('factory', {
+      transport: () => { throw new Error('nope'); },
+      onError
+    });
+
+    expect(onError.mock.calls[0][0].code).toBe('TRANSPORT');
+    expect((sync as any).transport).toBeInstanceOf(MemoryTransport);
+    sync.destroy();
+  });
+
+  it('should report rejected data with a code', () => {
+    const onError = vi.fn();
+    const sync = new TabStateSync<number>('codes', {
+      validate: (value): value is number => typeof value === 'number',
+      onError
+    });
+    const receive = (newValue: string) => {
+      window.dispatchEvent(new window.StorageEvent('storage', { key: 'tss:codes', newValue }));
+    };
+
+    receive('not json');
+    receive(JSON.stringify({ value: 'text', ts: Date.now(), v: 1 }));
+    receive(JSON.stringify({ value: 1, ts: Date.now(), v: 5 }));
+
+    expect(onError.mock.calls.map(([error]) => error.code)).toEqual(['PARSE', 'VALIDATION', 'VERSION']);
+    sync.destroy();
+  });
+
+  it('should report undecryptable data', async () => {
+    const onError = vi.fn();
+    const sync = new TabStateSync<string>('decrypt', { enableEncryption: true, encryptionKey: 'k', onError });
+
+    window.dispatchEvent(new window.StorageEvent('storage', { key: 'tss:decrypt', newValue: 'aesgcm1:AAAAAAAAAAAAAAAAAAAAAAAA' }));
+    await sync.flush();
+
+    expect(onError.mock.calls[0][0].code).toBe('DECRYPT');
+    sync.destroy();
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Importing React fails, as in an app without it
+vi.mock('react', () => {
+  throw new Error('react is not installed');
+});
+
+describe('entry points', () => {
+  it('should load the main entry point without React', async () => {
+    const lib = await import('../index');
+
+    expect(lib.TabStateSync).toBeDefined();
+    expect(lib.richSerializer).toBeDefined();
+    expect('useTabStateSync' in lib).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createIndexedDbStore } from '../indexedDb';
+import { TabStateSync } from '../TabStateSync';
+import { IndexedDbTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('IndexedDB', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should store structured-clonable values', async () => {
+    const store = createIndexedDbStore('clone-test');
+    const value = { bytes: new Uint8Array([1, 2, 3]), tags: new Map([['a', new Set([1])]]), at: new Date(0) };
+
+    await store.set('doc', value);
+    expect(await store.get('doc')).toEqual(value);
+
+    await store.delete('doc');
+    expect(await store.get('doc')).toBeUndefined();
+  });
+
+  it('should notify other transports and keep retained messages', async () => {
+    const a = new IndexedDbTransport('tss:notify');
+    const b = new IndexedDbTransport('tss:notify');
+    const onA = vi.fn();
+    const onB = vi.fn();
+    a.onMessage(onA);
+    b.onMessage(onB);
+
+    await a.send({ blob: new Uint8Array([7]) }, { retain: true });
+    a.send('transient');
+    await tick();
+
+    expect(onB.mock.calls).toEqual([[{ blob: new Uint8Array([7]) }], ['transient']]);
+    expect(onA).not.toHaveBeenCalled();
+    expect(await b.read()).toEqual({ blob: new Uint8Array([7]) });
+    a.close();
+    b.close();
+  });
+
+  it('should read null when nothing is stored', async () => {
+    const transport = new IndexedDbTransport('tss:empty');
+    expect(await transport.read()).toBeNull();
+    transport.close();
+  });
+
+  it('should sync TabStateSync instances and hydrate new tabs from the store', async () => {
+    const transport = (key: string) => new IndexedDbTransport(key);
+    const first = new TabStateSync<{ pages: string[] }>('document', { transport });
+    const second = new TabStateSync<{ pages: string[] }>('document', { transport });
+    await first.flush();
+    await second.flush();
+
+    first.set({ pages: ['intro'] });
+    await tick();
+    expect(second.get()).toEqual({ pages: ['intro'] });
+
+    second.update((doc) => ({ pages: [...doc!.pages, 'body'] }));
+    await tick();
+    expect(first.get()).toEqual({ pages: ['intro', 'body'] });
+
+    first.destroy();
+    second.destroy();
+
+    const reopened = new TabStateSync<{ pages: string[] }>('document', { transport });
+    expect(reopened.get()).toBeUndefined();
+    await reopened.flush();
+    expect(reopened.get()).toEqual({ pages: ['intro', 'body'] });
+    reopened.destroy();
+  });
+
+  it('should keep binary values through TabStateSync', async () => {
+    const transport = (key: string) => new IndexedDbTransport(key);
+    const first = new TabStateSync<{ bytes: Uint8Array }>('binary', { transport, compression: { threshold: 1 } });
+    const second = new TabStateSync<{ bytes: Uint8Array }>('binary', { transport });
+    await first.flush();
+    await second.flush();
+
+    first.set({ bytes: new Uint8Array([1, 2, 3]) });
+    await tick();
+    expect(second.get()).toEqual({ bytes: new Uint8Array([1, 2, 3]) });
+    first.destroy();
+    second.destroy();
+
+    const reopened = new TabStateSync<{ bytes: Uint8Array }>('binary', { transport });
+    await reopened.flush();
+    expect(reopened.get()).toEqual({ bytes: new Uint8Array([1, 2, 3]) });
+    reopened.destroy();
+  });
+
+  it('should report failed writes', async () => {
+    const onError = vi.fn();
+    const transport = new IndexedDbTransport('tss:failing');
+    (transport as any).store = {
+      get: () => Promise.resolve(undefined),
+      set: () => Promise.reject(new Error('Write failed')),
+      delete: () => Promise.resolve()
+    };
+    const sync = new TabStateSync<string>('failing', { transport, onError });
+    await sync.flush();
+
+    sync.set('value');
+    await tick();
+
+    expect(onError.mock.calls[0][0].code).toBe('TRANSPORT');
+    expect(sync.get()).toBe('value');
+    sync.destroy();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useAtom } from 'jotai/react';
+import { atomWithTabSync } from '../jotai';
+import { TabStateSync, TabStateSyncOptions } from '../TabStateSync';
+import { MemoryTransport, Transport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const options: TabStateSyncOptions<any> = { transport: (key) => new MemoryTransport(key) };
+
+const tick = () => act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+
+describe('jotai atomWithTabSync', () => {
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).document = dom.window.document;
+    (global as any).localStorage = dom.window.localStorage;
+    (global as any).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should sync the atom with other tabs', async () => {
+    const other = new TabStateSync<number>('count', options);
+    const countAtom = atomWithTabSync<number>('count', 0, options);
+    const { result, unmount } = renderHook(() => useAtom(countAtom));
+    expect(result.current[0]).toBe(0);
+
+    act(() => result.current[1]((count) => count + 1));
+    await tick();
+    expect(result.current[0]).toBe(1);
+    expect(other.get()).toBe(1);
+
+    act(() => other.set(5));
+    await tick();
+    expect(result.current[0]).toBe(5);
+
+    unmount();
+    other.destroy();
+  });
+
+  it('should read the shared value on the first render', () => {
+    const stored = (): Transport => ({
+      send: () => {},
+      onMessage: () => {},
+      read: () => JSON.stringify({ type: 'value', value: 'dark', ts: Date.now(), v: 1, clock: 1, tab: 'other' }),
+      close: () => {}
+    });
+    const themeAtom = atomWithTabSync('theme', 'light', { transport: stored });
+    const renders: string[] = [];
+    const { unmount } = renderHook(() => {
+      const [theme] = useAtom(themeAtom);
+      renders.push(theme);
+    });
+
+    expect(renders[0]).toBe('dark');
+    unmount();
+  });
+
+  it('should not send received values back', async () => {
+    const sent: unknown[] = [];
+    const recording = (key: string): Transport => {
+      const inner = new MemoryTransport(key);
+      return {
+        send: (data) => {
+          if (JSON.parse(data as string).type === 'value') sent.push(data);
+          inner.send(data);
+        },
+        onMessage: (handler) => inner.onMessage(handler),
+        close: () => inner.close()
+      };
+    };
+    const other = new TabStateSync<string>('echo', options);
+    const echoAtom = atomWithTabSync('echo', '', { transport: recording });
+    const { result, unmount } = renderHook(() => useAtom(echoAtom));
+
+    act(() => other.set('hello'));
+    await tick();
+
+    expect(result.current[0]).toBe('hello');
+    expect(sent).toEqual([]);
+    unmount();
+    other.destroy();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { applyPatch, createPatch, JsonPatchOperation } from '../jsonPatch';
+
+describe('jsonPatch', () => {
+  it('should create a minimal patch for nested changes', () => {
+    const from = { cart: { items: [{ id: 1, qty: 1 }], coupon: 'A' }, user: 'bob' };
+    const to = { cart: { items: [{ id: 1, qty: 2 }, { id: 2, qty: 1 }] }, user: 'bob' };
+
+    expect(createPatch(from, to)).toEqual([
+      { op: 'replace', path: '/cart/items/0/qty', value: 2 },
+      { op: 'add', path: '/cart/items/1', value: { id: 2, qty: 1 } },
+      { op: 'remove', path: '/cart/coupon' }
+    ]);
+  });
+
+  it('should round-trip createPatch through applyPatch', () => {
+    const from = { list: [1, 2, 3, 4], 'a/b': { '~x': true }, gone: null };
+    const to = { list: [1, 5], 'a/b': { '~x': false }, added: { deep: [1] } };
+
+    expect(applyPatch(from, createPatch(from, to))).toEqual(to);
+  });
+
+  it('should not mutate the original document', () => {
+    const doc = { a: { b: [1, 2] } };
+    const result = applyPatch(doc, [{ op: 'add', path: '/a/b/-', value: 3 }]);
+
+    expect(result).toEqual({ a: { b: [1, 2, 3] } });
+    expect(doc).toEqual({ a: { b: [1, 2] } });
+    expect(result.a).not.toBe(doc.a);
+  });
+
+  it('should support move, copy and test operations', () => {
+    const patch: JsonPatchOperation[] = [
+      { op: 'test', path: '/a', value: 1 },
+      { op: 'copy', from: '/a', path: '/b' },
+      { op: 'move', from: '/a', path: '/c' }
+    ];
+
+    expect(applyPatch({ a: 1 }, patch)).toEqual({ b: 1, c: 1 });
+  });
+
+  it('should throw when an operation cannot be applied', () => {
+    expect(() => applyPatch({ a: 1 }, [{ op: 'test', path: '/a', value: 2 }])).toThrow();
+    expect(() => applyPatch({ a: 1 }, [{ op: 'remove', path: '/missing' }])).toThrow();
+    expect(() => applyPatch({ a: [] }, [{ op: 'replace', path: '/a/3', value: 1 }])).toThrow();
+  });
+
+  it('should replace the whole value at the root path', () => {
+    expect(createPatch(1, 'x')).toEqual([{ op: 'replace', path: '', value: 'x' }]);
+    expect(applyPatch<unknown>(1, [{ op: 'replace', path: '', value: 'x' }])).toBe('x');
+  });
+});
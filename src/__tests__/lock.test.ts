@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { withLock, WithLockOptions } from '../lock';
+import { TabStateSyncError } from '../errors';
+import { MemoryTransport } from '../transports';
+import { createLockManager } from './webLocks';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const options: WithLockOptions = { transport: (key: string) => new MemoryTransport(key) };
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `fn` under the lock and records how many calls held it at the same time
+ */
+function createCritical() {
+  let holders = 0;
+  let maxHolders = 0;
+  const run = async (ms: number) => {
+    holders++;
+    maxHolders = Math.max(maxHolders, holders);
+    await delay(ms);
+    holders--;
+  };
+  return { run, max: () => maxHolders };
+}
+
+describe('withLock', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete (global as any).navigator;
+    dom.window.close();
+  });
+
+  it('should run callers one at a time with a localStorage lease', async () => {
+    const critical = createCritical();
+    const order: number[] = [];
+    const results = await Promise.all([1, 2, 3].map((n) => withLock('counter', async () => {
+      await critical.run(10);
+      order.push(n);
+      return n * 10;
+    }, options)));
+
+    expect(results).toEqual([10, 20, 30]);
+    expect(critical.max()).toBe(1);
+    expect(order).toHaveLength(3);
+    expect(localStorage.getItem('tss:counter#lock')).toBeNull();
+  });
+
+  it('should release the lock when the function throws', async () => {
+    await expect(withLock('failing', () => { throw new Error('boom'); }, options)).rejects.toThrow('boom');
+
+    await expect(withLock('failing', () => 'next', options)).resolves.toBe('next');
+    expect(localStorage.getItem('tss:failing#lock')).toBeNull();
+  });
+
+  it('should take over the lease of a tab that stopped renewing it', async () => {
+    localStorage.setItem('tss:stale#lock', JSON.stringify({ owner: 'closed-tab', until: Date.now() + 50 }));
+
+    const started = Date.now();
+    await withLock('stale', () => undefined, options);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(50);
+  });
+
+  it('should reject with TIMEOUT when the lock is not released in time', async () => {
+    let release!: () => void;
+    const holding = withLock('busy', () => new Promise<void>((resolve) => { release = resolve; }), options);
+    await delay(30);
+
+    const error = await withLock('busy', () => undefined, { ...options, timeout: 50 })
+      .catch((err: TabStateSyncError) => err) as TabStateSyncError;
+
+    expect(error).toBeInstanceOf(TabStateSyncError);
+    expect(error.code).toBe('TIMEOUT');
+    release();
+    await holding;
+  });
+
+  it('should renew the lease while the function runs', async () => {
+    const critical = createCritical();
+    const short = { ...options, leaseDuration: 40 };
+
+    await Promise.all([
+      withLock('long', () => critical.run(120), short),
+      delay(30).then(() => withLock('long', () => critical.run(0), short))
+    ]);
+
+    expect(critical.max()).toBe(1);
+  });
+
+  it('should use Web Locks when available', async () => {
+    const locks = createLockManager();
+    const request = vi.spyOn(locks, 'request');
+    (global as any).navigator = { locks };
+    const critical = createCritical();
+
+    await Promise.all([1, 2].map(() => withLock('web', () => critical.run(10), { namespace: 'app' })));
+
+    expect(critical.max()).toBe(1);
+    expect(request).toHaveBeenCalledWith('tabstatesync:lock:app:web', expect.anything(), expect.any(Function));
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should reject with TIMEOUT when Web Locks does not grant the lock in time', async () => {
+    (global as any).navigator = { locks: createLockManager() };
+    let release!: () => void;
+    const holding = withLock('web-busy', () => new Promise<void>((resolve) => { release = resolve; }));
+
+    const error = await withLock('web-busy', () => undefined, { timeout: 20 })
+      .catch((err: TabStateSyncError) => err) as TabStateSyncError;
+
+    expect(error.code).toBe('TIMEOUT');
+    release();
+    await holding;
+  });
+});
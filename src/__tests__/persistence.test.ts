@@ -0,0 +1,145 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabStateSync, TabStateSyncOptions } from '../TabStateSync';
+import { MemoryTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const transport = (key: string) => new MemoryTransport(key);
+
+/**
+ * Simulates closing every tab, then opening a new one
+ */
+async function reopen<T>(key: string, options: TabStateSyncOptions<T>, value: T) {
+  const first = new TabStateSync<T>(key, options);
+  first.set(value);
+  await first.flush();
+  first.destroy();
+  return new TabStateSync<T>(key, options);
+}
+
+describe('persistence', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+    (global as any).sessionStorage = dom.window.sessionStorage;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    dom.window.close();
+  });
+
+  it('should restore the last value from localStorage after every tab closed', async () => {
+    const sync = await reopen('local', { transport, persist: 'local' }, { theme: 'dark' });
+
+    expect(sync.get()).toEqual({ theme: 'dark' });
+    expect(localStorage.getItem('tss:local#persist')).not.toBeNull();
+    sync.destroy();
+  });
+
+  it('should restore the last value from sessionStorage', async () => {
+    const sync = await reopen('session', { transport, persist: 'session' }, 'draft');
+
+    expect(sync.get()).toBe('draft');
+    expect(sessionStorage.getItem('tss:session#persist')).not.toBeNull();
+    sync.destroy();
+  });
+
+  it('should restore the last value from IndexedDB', async () => {
+    const sync = await reopen('idb', { transport, persist: 'indexeddb' }, { items: [1, 2, 3] });
+    expect(sync.get()).toBeUndefined();
+
+    await sync.flush();
+    expect(sync.get()).toEqual({ items: [1, 2, 3] });
+    sync.destroy();
+  });
+
+  it('should not persist without the option', async () => {
+    const sync = await reopen('none', { transport, persist: 'none' }, 'lost');
+
+    expect(sync.get()).toBeUndefined();
+    expect(localStorage.length).toBe(0);
+    sync.destroy();
+  });
+
+  it('should persist the full value after a partial update', async () => {
+    const options: TabStateSyncOptions = { transport, persist: 'local' };
+    const a = new TabStateSync<{ count: number; label: string }>('partial', options);
+    const b = new TabStateSync<{ count: number; label: string }>('partial', options);
+    a.set({ count: 1, label: 'clicks' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    a.update((current) => ({ ...current!, count: 2 }));
+    a.destroy();
+    b.destroy();
+
+    const reopened = new TabStateSync('partial', options);
+    expect(reopened.get()).toEqual({ count: 2, label: 'clicks' });
+    reopened.destroy();
+  });
+
+  it('should drop persisted values older than the ttl', async () => {
+    vi.useFakeTimers();
+    const options: TabStateSyncOptions = { transport, persist: { mode: 'local', ttl: 60000 } };
+    const first = new TabStateSync('ttl', options);
+    first.set('fresh');
+    first.destroy();
+
+    vi.advanceTimersByTime(30000);
+    const second = new TabStateSync('ttl', options);
+    expect(second.get()).toBe('fresh');
+    second.destroy();
+
+    vi.advanceTimersByTime(31000);
+    const third = new TabStateSync('ttl', options);
+    expect(third.get()).toBeUndefined();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(localStorage.getItem('tss:ttl#persist')).toBeNull();
+    third.destroy();
+  });
+
+  it('should apply the ttl to values stored by the localStorage transport', () => {
+    vi.useFakeTimers();
+    const options: TabStateSyncOptions = { persist: { mode: 'local', ttl: 1000 } };
+    const first = new TabStateSync('stored-ttl', options);
+    first.set('value');
+    first.destroy();
+
+    // The transport already stores the value, so it is not written twice
+    expect(localStorage.getItem('tss:stored-ttl')).not.toBeNull();
+    expect(localStorage.getItem('tss:stored-ttl#persist')).toBeNull();
+
+    vi.advanceTimersByTime(2000);
+    const second = new TabStateSync('stored-ttl', options);
+    expect(second.get()).toBeUndefined();
+    second.destroy();
+  });
+
+  it('should encrypt persisted values', async () => {
+    const sync = await reopen('secret', { transport, persist: 'local', enableEncryption: true, encryptionKey: 'k' }, 'hidden');
+    await sync.flush();
+
+    expect(localStorage.getItem('tss:secret#persist')!.startsWith('aesgcm1:')).toBe(true);
+    expect(sync.get()).toBe('hidden');
+    sync.destroy();
+  });
+
+  it('should report persistence failures', () => {
+    const onError = vi.fn();
+    const sync = new TabStateSync<string>('failing', { transport, persist: 'local', onError });
+    vi.spyOn(dom.window.Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new dom.window.DOMException('Full', 'QuotaExceededError');
+    });
+
+    sync.set('value');
+
+    expect(onError.mock.calls[0][0].code).toBe('QUOTA');
+    expect(sync.get()).toBe('value');
+    vi.restoreAllMocks();
+    sync.destroy();
+  });
+});
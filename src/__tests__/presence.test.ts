@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabStateSync, TabStateSyncOptions } from '../TabStateSync';
+import { MemoryTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const options: TabStateSyncOptions = {
+  transport: (key: string) => new MemoryTransport(key),
+  presence: { heartbeatInterval: 100, timeout: 300 }
+};
+
+describe('Presence', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    dom.window.close();
+  });
+
+  it('should list the other tabs after they join', async () => {
+    const a = new TabStateSync('room', options);
+    const b = new TabStateSync('room', options);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(a.getPeers().map((peer) => peer.id)).toEqual([b.getTabId()]);
+    expect(b.getPeers().map((peer) => peer.id)).toEqual([a.getTabId()]);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should keep a stable tab ID per instance', () => {
+    const a = new TabStateSync('ids', options);
+    const b = new TabStateSync('ids', options);
+
+    expect(a.getTabId()).toBe(a.getTabId());
+    expect(a.getTabId()).not.toBe(b.getTabId());
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should remove a tab that says goodbye', async () => {
+    const a = new TabStateSync('leave', options);
+    const b = new TabStateSync('leave', options);
+    await vi.advanceTimersByTimeAsync(0);
+    const onChange = vi.fn();
+    a.onPeersChange(onChange);
+
+    b.destroy();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(a.getPeers()).toEqual([]);
+    expect(onChange).toHaveBeenCalledWith([]);
+    a.destroy();
+  });
+
+  it('should remove a tab that stops sending heartbeats', async () => {
+    const a = new TabStateSync('timeout', options);
+    const b = new TabStateSync('timeout', options);
+    await vi.advanceTimersByTimeAsync(0);
+    // Simulate a crashed tab: it neither sends heartbeats nor says goodbye
+    (b as any).presence.stop = () => {};
+    (b as any).transport.send = () => {};
+
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(a.getPeers()).toEqual([]);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should keep tabs that send heartbeats', async () => {
+    const a = new TabStateSync('alive', options);
+    const b = new TabStateSync('alive', options);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(a.getPeers()).toHaveLength(1);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should share metadata with the other tabs', async () => {
+    const a = new TabStateSync('meta', options);
+    const b = new TabStateSync('meta', { ...options, presence: { ...(options.presence as object), data: { user: 'ana' } } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(a.getPeers()[0]).toMatchObject({ id: b.getTabId(), data: { user: 'ana' }, visible: true });
+    expect(typeof a.getPeers()[0].lastSeen).toBe('number');
+
+    const onChange = vi.fn();
+    a.onPeersChange(onChange);
+    b.setPresenceData({ user: 'bia' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(a.getPeers()[0].data).toEqual({ user: 'bia' });
+    expect(onChange).toHaveBeenCalledTimes(1);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should not notify for heartbeats without changes', async () => {
+    const a = new TabStateSync('quiet', options);
+    const b = new TabStateSync('quiet', options);
+    await vi.advanceTimersByTimeAsync(0);
+    const onChange = vi.fn();
+    a.onPeersChange(onChange);
+
+    await vi.advanceTimersByTimeAsync(250);
+
+    expect(onChange).not.toHaveBeenCalled();
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should announce leaving on pagehide', async () => {
+    const a = new TabStateSync('hide', options);
+    const b = new TabStateSync('hide', options);
+    await vi.advanceTimersByTimeAsync(0);
+
+    (b as any).presence.onPageHide();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(a.getPeers()).toEqual([]);
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should not track peers unless enabled', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const a = new TabStateSync('off', { transport });
+    const b = new TabStateSync('off', options);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(a.getPeers()).toEqual([]);
+    expect(b.getPeers()).toEqual([]);
+    a.destroy();
+    b.destroy();
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { combineReducers, legacy_createStore as createStore, UnknownAction } from 'redux';
+import { tabSyncEnhancer, TabSyncEnhancerOptions } from '../redux';
+import { MemoryTransport, PollingStorageTransport, StorageEventTransport, Transport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const transport = (key: string) => new MemoryTransport(key);
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const reducer = combineReducers({
+  cart: (state: string[] = [], action: UnknownAction) =>
+    action.type === 'cart/add' ? [...state, action.item as string] : state,
+  theme: (state = 'light', action: UnknownAction) =>
+    action.type === 'theme/set' ? action.theme as string : state,
+  route: (state = '/', action: UnknownAction) =>
+    action.type === 'route/set' ? action.route as string : state
+});
+
+function create(options: TabSyncEnhancerOptions) {
+  return createStore(reducer, tabSyncEnhancer({ transport, ...options }));
+}
+
+describe('redux tabSyncEnhancer', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should replay allow-listed actions in other tabs', async () => {
+    const a = create({ name: 'replay', actions: ['cart/add'] });
+    const b = create({ name: 'replay', actions: ['cart/add'] });
+
+    a.dispatch({ type: 'cart/add', item: 'apple' });
+    a.dispatch({ type: 'route/set', route: '/checkout' });
+    await tick();
+
+    expect(b.getState()).toMatchObject({ cart: ['apple'], route: '/' });
+    expect(a.getState().cart).toEqual(['apple']);
+  });
+
+  it('should apply concurrent actions from several tabs', async () => {
+    const a = create({ name: 'concurrent', actions: (action) => action.type.startsWith('cart/') });
+    const b = create({ name: 'concurrent', actions: (action) => action.type.startsWith('cart/') });
+
+    a.dispatch({ type: 'cart/add', item: 'apple' });
+    b.dispatch({ type: 'cart/add', item: 'pear' });
+    await tick();
+
+    expect(a.getState().cart).toHaveLength(2);
+    expect(b.getState().cart).toHaveLength(2);
+  });
+
+  it('should not replay the last action in tabs opened later', async () => {
+    const a = create({ name: 'late', actions: ['cart/add'] });
+    a.dispatch({ type: 'cart/add', item: 'apple' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const b = create({ name: 'late', actions: ['cart/add'] });
+    await tick();
+
+    expect(b.getState().cart).toEqual([]);
+  });
+
+  it('should replay actions dispatched within one polling interval', async () => {
+    const polling = (key: string) => new PollingStorageTransport(key, 20);
+    const a = create({ name: 'polling', actions: ['cart/add'], transport: polling });
+    const b = create({ name: 'polling', actions: ['cart/add'], transport: polling });
+
+    a.dispatch({ type: 'cart/add', item: 'apple' });
+    a.dispatch({ type: 'cart/add', item: 'pear' });
+    a.dispatch({ type: 'cart/add', item: 'plum' });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(b.getState().cart).toEqual(['apple', 'pear', 'plum']);
+  });
+
+  it('should not keep actions in localStorage', () => {
+    const storage = (key: string) => new StorageEventTransport(key);
+    const a = create({ name: 'stored-actions', actions: ['cart/add'], transport: storage });
+
+    a.dispatch({ type: 'cart/add', item: 'apple' });
+
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should sync selected slices and hydrate new tabs', async () => {
+    const a = create({ name: 'slices', slices: ['theme'] });
+    const b = create({ name: 'slices', slices: ['theme'] });
+
+    a.dispatch({ type: 'theme/set', theme: 'dark' });
+    a.dispatch({ type: 'route/set', route: '/settings' });
+    await tick();
+    expect(b.getState()).toMatchObject({ theme: 'dark', route: '/' });
+
+    const c = create({ name: 'slices', slices: ['theme'] });
+    await tick();
+    expect(c.getState().theme).toBe('dark');
+  });
+
+  it('should hydrate slices synchronously from stored state', () => {
+    const stored = (): Transport => ({
+      send: () => {},
+      onMessage: () => {},
+      read: () => JSON.stringify({ type: 'value', value: { theme: 'dark' }, ts: Date.now(), v: 1, clock: 1, tab: 'other' }),
+      close: () => {}
+    });
+    const store = createStore(reducer, tabSyncEnhancer({ name: 'stored', slices: ['theme'], transport: stored }));
+
+    expect(store.getState().theme).toBe('dark');
+  });
+
+  it('should not send received actions and slices back', async () => {
+    const sent: string[] = [];
+    const recording = (key: string): Transport => {
+      const inner = new MemoryTransport(key);
+      return {
+        send: (data) => {
+          const message = JSON.parse(data as string);
+          if (message.type === 'value' || message.type === 'patch' || key.endsWith('#events')) sent.push(key);
+          inner.send(data);
+        },
+        onMessage: (handler) => inner.onMessage(handler),
+        close: () => inner.close()
+      };
+    };
+    const a = create({ name: 'echo', actions: ['cart/add'], slices: ['theme'] });
+    create({ name: 'echo', actions: ['cart/add'], slices: ['theme'], transport: recording });
+
+    a.dispatch({ type: 'cart/add', item: 'apple' });
+    a.dispatch({ type: 'theme/set', theme: 'dark' });
+    await tick();
+
+    expect(sent).toEqual([]);
+  });
+});
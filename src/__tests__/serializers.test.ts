@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { jsonSerializer, richSerializer } from '../serializers';
+import { TabStateSync } from '../TabStateSync';
+import { MemoryTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const roundTrip = (value: unknown) => richSerializer.deserialize(richSerializer.serialize(value));
+
+describe('richSerializer', () => {
+  it('should round-trip Date, Map, Set and BigInt', () => {
+    const value = {
+      date: new Date('2024-01-02T03:04:05.678Z'),
+      map: new Map<unknown, unknown>([['a', 1], [2, new Date(0)]]),
+      set: new Set(['x', 'y']),
+      big: BigInt('12345678901234567890')
+    };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should round-trip undefined, NaN and Infinity', () => {
+    const value = { missing: undefined, list: [1, undefined, 3], nan: NaN, inf: -Infinity };
+    const result = roundTrip(value) as typeof value;
+
+    expect(result).toEqual(value);
+    expect('missing' in result).toBe(true);
+    expect(roundTrip(undefined)).toBeUndefined();
+  });
+
+  it('should round-trip typed arrays and ArrayBuffer', () => {
+    const bytes = new Uint8Array([0, 1, 254, 255]);
+    const floats = new Float64Array([1.5, -2.25]);
+    const offset = new Int16Array(new Int16Array([1, 2, 3, 4]).buffer, 2, 2);
+    const result = roundTrip({ bytes, floats, offset, buffer: bytes.buffer }) as Record<string, any>;
+
+    expect(result.bytes).toBeInstanceOf(Uint8Array);
+    expect(Array.from(result.bytes)).toEqual([0, 1, 254, 255]);
+    expect(result.floats).toBeInstanceOf(Float64Array);
+    expect(Array.from(result.floats)).toEqual([1.5, -2.25]);
+    expect(Array.from(result.offset)).toEqual([2, 3]);
+    expect(result.buffer).toBeInstanceOf(ArrayBuffer);
+    expect(result.buffer.byteLength).toBe(4);
+  });
+
+  it('should keep plain objects that look like encoded values', () => {
+    const value = { $t: 'Date', v: 0, nested: { $t: 'Map' } };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should produce plain JSON for plain values', () => {
+    const value = { a: [1, 'two', null], b: { c: true } };
+    expect(richSerializer.serialize(value)).toBe(jsonSerializer.serialize(value));
+  });
+});
+
+describe('serializer option', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should deliver the same types through message and storage transports', async () => {
+    const value = { when: new Date(1000), tags: new Set(['a']) };
+
+    const transport = (key: string) => new MemoryTransport(key);
+    const a = new TabStateSync('rich', { transport, serializer: richSerializer });
+    const b = new TabStateSync('rich', { transport, serializer: richSerializer });
+    a.set(value);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    // JSDOM has no BroadcastChannel, so these use the localStorage fallback
+    const writer = new TabStateSync('rich-storage', { serializer: richSerializer });
+    writer.set(value);
+    const reader = new TabStateSync('rich-storage', { serializer: richSerializer });
+
+    expect(b.get()).toEqual(value);
+    expect(reader.get()).toEqual(value);
+    expect((reader.get() as typeof value).when).toBeInstanceOf(Date);
+    [a, b, writer, reader].forEach((sync) => sync.destroy());
+  });
+
+  it('should sync undefined with the default JSON serializer', async () => {
+    const transport = (key: string) => new MemoryTransport(key);
+    const a = new TabStateSync<string | undefined>('undefined', { transport });
+    const b = new TabStateSync<string | undefined>('undefined', { transport });
+    a.set('defined');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const cb = vi.fn();
+    b.subscribe(cb);
+
+    a.set(undefined);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(cb).toHaveBeenCalledWith(undefined);
+    a.destroy();
+    b.destroy();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabStateSync } from '../TabStateSync';
+import { createSharedWorkerTransport, SHARED_WORKER_SOURCE, SharedWorkerTransport } from '../sharedWorker';
+import { StorageEventTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+let ports: MessagePort[] = [];
+
+/**
+ * Runs the real worker source in-process and connects each instance through a MessageChannel
+ */
+function installFakeSharedWorker() {
+  const scope: { onconnect?: (event: { ports: MessagePort[] }) => void } = {};
+  new Function('self', SHARED_WORKER_SOURCE)(scope);
+
+  (global as any).SharedWorker = class {
+    port: MessagePort;
+    constructor() {
+      const channel = new MessageChannel();
+      ports.push(channel.port1, channel.port2);
+      this.port = channel.port1;
+      scope.onconnect!({ ports: [channel.port2] });
+    }
+  };
+}
+
+const wait = (ms = 20) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('SharedWorkerTransport', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+    installFakeSharedWorker();
+  });
+
+  afterEach(() => {
+    ports.forEach((port) => port.close());
+    ports = [];
+    delete (global as any).SharedWorker;
+    dom.window.close();
+  });
+
+  it('should relay values between tabs through the worker', async () => {
+    const transport = (key: string) => createSharedWorkerTransport(key);
+    const a = new TabStateSync<string>('theme', { transport });
+    const b = new TabStateSync<string>('theme', { transport });
+    const cb = vi.fn();
+    b.subscribe(cb);
+
+    a.set('dark');
+    await wait();
+
+    expect(cb).toHaveBeenCalledWith('dark');
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should serve the canonical value to tabs that connect later', async () => {
+    const transport = (key: string) => createSharedWorkerTransport(key);
+    const a = new TabStateSync<string>('late', { transport });
+    a.set('first');
+    await wait();
+    // The writer is gone, only the worker still knows the value
+    a.destroy();
+
+    const b = new TabStateSync<string>('late', { transport });
+    await wait();
+    expect(b.get()).toBe('first');
+    b.destroy();
+  });
+
+  it('should keep patched values in the worker', async () => {
+    const transport = (key: string) => createSharedWorkerTransport(key);
+    const a = new TabStateSync<{ items: number[] }>('patched', { transport });
+    a.set({ items: [1] });
+    a.update((value) => ({ items: [...value!.items, 2] }));
+    await wait();
+    a.destroy();
+
+    const b = new TabStateSync<{ items: number[] }>('patched', { transport });
+    await wait();
+    expect(b.get()).toEqual({ items: [1, 2] });
+    b.destroy();
+  });
+
+  it('should keep values merged by a custom resolver in the worker', async () => {
+    const transport = (key: string) => createSharedWorkerTransport(key);
+    const conflictResolution = (local: number[], remote: number[]) => Array.from(new Set([...local, ...remote])).sort();
+    const a = new TabStateSync<number[]>('merged', { transport, conflictResolution });
+    const b = new TabStateSync<number[]>('merged', { transport, conflictResolution });
+    await wait();
+
+    a.set([1]);
+    b.set([2]);
+    await wait();
+    a.destroy();
+    b.destroy();
+
+    const c = new TabStateSync<number[]>('merged', { transport });
+    await wait();
+    expect(c.get()).toEqual([1, 2]);
+    c.destroy();
+  });
+
+  it('should converge when two tabs write at the same time', async () => {
+    const transport = (key: string) => createSharedWorkerTransport(key);
+    const a = new TabStateSync<string>('race', { transport });
+    const b = new TabStateSync<string>('race', { transport });
+    await wait();
+
+    a.set('from-a');
+    b.set('from-b');
+    await wait();
+
+    expect(a.get()).toBe(b.get());
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should isolate keys sharing the same worker', async () => {
+    const a = new SharedWorkerTransport('one');
+    const b = new SharedWorkerTransport('two');
+    const handler = vi.fn();
+    b.onMessage(handler);
+
+    a.send('hello', { retain: true });
+    await wait();
+
+    expect(handler).not.toHaveBeenCalled();
+    a.close();
+    b.close();
+  });
+
+  it('should switch to the default transport when the worker fails to load', async () => {
+    // The script is fetched after the constructor returned, like a data: URL blocked by CSP
+    (global as any).SharedWorker = class {
+      port = new MessageChannel().port1;
+      onerror: ((event: Event) => void) | null = null;
+      constructor() {
+        ports.push(this.port);
+        setTimeout(() => this.onerror?.(new dom.window.Event('error')), 0);
+      }
+    };
+    (dom.window as any).BroadcastChannel = BroadcastChannel;
+    const onError = vi.fn();
+    const transport = (key: string) => createSharedWorkerTransport(key);
+    const a = new TabStateSync<string>('blocked', { transport, onError });
+    a.set('dark');
+    await wait();
+
+    expect(onError.mock.calls[0][0]).toMatchObject({ code: 'TRANSPORT' });
+    expect(onError.mock.calls[0][0].message).toContain('default transport');
+    // Tabs keep syncing over BroadcastChannel, including the value written before the failure
+    const b = new TabStateSync<string>('blocked', { transport });
+    await wait();
+    expect(b.get()).toBe('dark');
+    a.set('light');
+    await wait();
+    expect(b.get()).toBe('light');
+    a.destroy();
+    b.destroy();
+  });
+
+  it('should fall back to the default transport without SharedWorker', () => {
+    delete (global as any).SharedWorker;
+    expect(createSharedWorkerTransport('tss:fallback')).toBeInstanceOf(StorageEventTransport);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRoot } from 'solid-js';
+import { createTabSignal } from '../solid';
+import { TabStateSync, TabStateSyncOptions } from '../TabStateSync';
+import { MemoryTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const options: TabStateSyncOptions<any> = { transport: (key) => new MemoryTransport(key) };
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('solid createTabSignal', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should sync the signal with other tabs and clean up with its owner', async () => {
+    const other = new TabStateSync<number>('count', options);
+    const destroy = vi.spyOn(TabStateSync.prototype, 'destroy');
+    const { count, setCount, dispose } = createRoot((dispose) => {
+      const [count, setCount] = createTabSignal<number>('count', 0, options);
+      return { count, setCount, dispose };
+    });
+
+    setCount((value) => value + 1);
+    await tick();
+    expect(count()).toBe(1);
+    expect(other.get()).toBe(1);
+
+    other.set(4);
+    await tick();
+    expect(count()).toBe(4);
+
+    dispose();
+    expect(destroy).toHaveBeenCalledTimes(1);
+    destroy.mockRestore();
+    other.destroy();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { tabStateStore } from '../svelte';
+import { TabStateSync, TabStateSyncOptions } from '../TabStateSync';
+import { MemoryTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const options: TabStateSyncOptions<any> = { transport: (key) => new MemoryTransport(key) };
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('svelte tabStateStore', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should follow the store contract and sync with other tabs', async () => {
+    const other = new TabStateSync<number>('count', options);
+    const store = tabStateStore('count', 0, options);
+    const values: number[] = [];
+    const unsubscribe = store.subscribe((value) => values.push(value));
+
+    store.update((count) => count + 1);
+    await tick();
+    expect(other.get()).toBe(1);
+
+    other.set(5);
+    await tick();
+    expect(values).toEqual([0, 1, 5]);
+
+    unsubscribe();
+    other.destroy();
+  });
+
+  it('should destroy the instance when the last subscriber leaves', () => {
+    const destroy = vi.spyOn(TabStateSync.prototype, 'destroy');
+    const store = tabStateStore('shared', 'a', options);
+    const first = store.subscribe(() => {});
+    const second = store.subscribe(() => {});
+
+    first();
+    expect(destroy).not.toHaveBeenCalled();
+    second();
+    expect(destroy).toHaveBeenCalledTimes(1);
+    destroy.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TabStateSync } from '../TabStateSync';
+import { MemoryTransport, StorageEventTransport, Transport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('transports', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should deliver MemoryTransport messages to peers but not to the sender', async () => {
+    const a = new MemoryTransport('memory');
+    const b = new MemoryTransport('memory');
+    const onA = vi.fn();
+    const onB = vi.fn();
+    a.onMessage(onA);
+    b.onMessage(onB);
+
+    a.send({ hello: 'world' });
+    await tick();
+
+    expect(onB).toHaveBeenCalledWith({ hello: 'world' });
+    expect(onA).not.toHaveBeenCalled();
+    a.close();
+    b.close();
+  });
+
+  it('should sync and hydrate TabStateSync instances over a custom transport', async () => {
+    const factory = (key: string) => new MemoryTransport(key);
+    const first = new TabStateSync<number>('counter', { transport: factory });
+    first.set(1);
+
+    const second = new TabStateSync<number>('counter', { transport: factory });
+    await tick();
+    expect(second.get()).toBe(1);
+
+    const cb = vi.fn();
+    first.subscribe(cb);
+    second.set(2);
+    await tick();
+    expect(cb).toHaveBeenCalledWith(2);
+
+    first.destroy();
+    second.destroy();
+  });
+
+  it('should pass the retain flag and close the transport on destroy', () => {
+    const transport: Transport = {
+      send: vi.fn(),
+      onMessage: vi.fn(),
+      read: vi.fn(() => null),
+      close: vi.fn()
+    };
+    const sync = new TabStateSync<string>('custom', { transport });
+    sync.set('abc');
+    expect(transport.send).toHaveBeenCalledWith(expect.any(String), { retain: true });
+    expect(JSON.parse((transport.send as any).mock.calls[0][0])).toMatchObject({ value: 'abc' });
+
+    sync.destroy();
+    expect(transport.close).toHaveBeenCalled();
+  });
+
+  it('should not overwrite the stored state with non-retained storage messages', () => {
+    const sender = new StorageEventTransport('tss:state');
+    sender.send('state', { retain: true });
+    sender.send('notice');
+
+    expect(localStorage.getItem('tss:state')).toBe('state');
+    expect(localStorage.getItem('tss:state#message')).toBeNull();
+    sender.close();
+  });
+
+  it('should deliver storage events for both retained and non-retained messages', () => {
+    const receiver = new StorageEventTransport('tss:state');
+    const handler = vi.fn();
+    receiver.onMessage(handler);
+
+    window.dispatchEvent(new window.StorageEvent('storage', { key: 'tss:state', newValue: 'state' }));
+    window.dispatchEvent(new window.StorageEvent('storage', { key: 'tss:state#message', newValue: 'notice' }));
+    window.dispatchEvent(new window.StorageEvent('storage', { key: 'tss:state#message', newValue: null }));
+
+    expect(handler.mock.calls).toEqual([['state'], ['notice']]);
+    receiver.close();
+  });
+});
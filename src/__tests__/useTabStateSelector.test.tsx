@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { TabStateSync, TabStateSyncOptions } from '../TabStateSync';
+import { useTabStateSelector } from '../useTabStateSelector';
+import { MemoryTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+type Settings = { theme: string; count: number };
+
+const options: TabStateSyncOptions<Settings> = { transport: (key) => new MemoryTransport(key) };
+
+const tick = () => act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+
+describe('useTabStateSelector', () => {
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).document = dom.window.document;
+    (global as any).localStorage = dom.window.localStorage;
+    (global as any).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should return the selected part of the value from other tabs', async () => {
+    const other = new TabStateSync<Settings>('settings', options);
+    other.set({ theme: 'dark', count: 1 });
+    const { result, unmount } = renderHook(() => useTabStateSelector<Settings, string | undefined>('settings', (value) => value?.theme, options));
+    await tick();
+    expect(result.current).toBe('dark');
+
+    act(() => other.set({ theme: 'light', count: 1 }));
+    await tick();
+    expect(result.current).toBe('light');
+
+    unmount();
+    other.destroy();
+  });
+
+  it('should re-render only when the selection changes', async () => {
+    const other = new TabStateSync<Settings>('renders', options);
+    let renders = 0;
+    const { result, unmount } = renderHook(() => {
+      renders++;
+      return useTabStateSelector<Settings, { theme?: string }>(
+        'renders',
+        (value) => ({ theme: value?.theme }),
+        options,
+        (a, b) => a.theme === b.theme
+      );
+    });
+
+    other.set({ theme: 'dark', count: 1 });
+    await tick();
+    const rendersAfterTheme = renders;
+    expect(result.current).toEqual({ theme: 'dark' });
+
+    other.set({ theme: 'dark', count: 2 });
+    other.set({ theme: 'dark', count: 3 });
+    await tick();
+    expect(renders).toBe(rendersAfterTheme);
+
+    unmount();
+    other.destroy();
+  });
+});
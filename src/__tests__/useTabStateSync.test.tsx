@@ -1,65 +1,162 @@
-import { describe, it, expect, vi } from 'vitest';
-import { useTabStateSync } from '../useTabStateSync';
-import { renderHook } from '@testing-library/react-hooks';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
 import * as React from 'react';
-import { useState, useEffect, useRef, useCallback } from 'react';
-
-// Mock de useState, useRef, useEffect e useCallback
-vi.mock('react', () => {
-    const originalReact = vi.importActual('react');
-    const mockState = ['initial-value', vi.fn()];
-    const mockRef = { current: null };
-
-    return {
-        ...originalReact,
-        useState: vi.fn().mockReturnValue(mockState),
-        useRef: vi.fn().mockReturnValue(mockRef),
-        useEffect: vi.fn(),
-        useCallback: vi.fn((fn) => fn),
-    };
-});
+import { useTabStateSync } from '../useTabStateSync';
+import { TabStateSync, TabStateSyncOptions } from '../TabStateSync';
+import { MemoryTransport } from '../transports';
 
-// Mock TabStateSync
-vi.mock('../TabStateSync', () => {
-    return {
-        TabStateSync: vi.fn().mockImplementation(() => ({
-            set: vi.fn(),
-            subscribe: vi.fn(),
-            unsubscribe: vi.fn(),
-            destroy: vi.fn()
-        }))
-    };
-});
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
 
-// Mock do renderHook
-vi.mock('@testing-library/react-hooks', () => ({
-    renderHook: vi.fn((callback) => ({
-        result: { current: callback() },
-        rerender: vi.fn()
-    }))
-}));
+const options: TabStateSyncOptions<any> = { transport: (key) => new MemoryTransport(key) };
+
+const tick = () => act(() => new Promise((resolve) => setTimeout(resolve, 0)));
 
 describe('useTabStateSync', () => {
+    beforeEach(() => {
+        dom = new JSDOM('<!doctype html><html><body></body></html>', { url: 'http://localhost' });
+        (global as any).window = dom.window;
+        (global as any).document = dom.window.document;
+        (global as any).localStorage = dom.window.localStorage;
+        (global as any).IS_REACT_ACT_ENVIRONMENT = true;
+    });
+
+    afterEach(() => {
+        dom.window.close();
+        delete (global as any).window;
+        delete (global as any).document;
+    });
+
     it('should initialize with the provided initial value', () => {
-        // Configurações dos mocks
-        const initialValue = 'test-value';
-        (useState as any).mockReturnValue([initialValue, vi.fn()]);
+        const { result, unmount } = renderHook(() => useTabStateSync('test-key', 'test-value', options));
+
+        expect(result.current[0]).toBe('test-value');
+        unmount();
+    });
+
+    it('should memoize the set function', () => {
+        const { result, rerender, unmount } = renderHook(() => useTabStateSync('test-key', 'value', options));
+        const set = result.current[1];
+
+        rerender();
+
+        expect(result.current[1]).toBe(set);
+        unmount();
+    });
+
+    it('should sync values with other tabs', async () => {
+        const other = new TabStateSync<number>('counter', options);
+        const { result, unmount } = renderHook(() => useTabStateSync('counter', 0, options));
+
+        act(() => result.current[1](1));
+        expect(result.current[0]).toBe(1);
+        await tick();
+        expect(other.get()).toBe(1);
+
+        act(() => other.set(2));
+        await tick();
+        expect(result.current[0]).toBe(2);
 
-        // Chamada do hook
-        const result = useTabStateSync('test-key', initialValue);
+        unmount();
+        other.destroy();
+    });
+
+    it('should support updater functions', () => {
+        const { result, unmount } = renderHook(() => useTabStateSync<number>('updater', 0, options));
+
+        act(() => {
+            result.current[1]((count) => count + 1);
+            result.current[1]((count) => count + 1);
+        });
+
+        expect(result.current[0]).toBe(2);
+        unmount();
+    });
 
-        // Verificação
-        expect(result[0]).toBe(initialValue);
+    it('should keep writes made before the component subscribed', async () => {
+        const other = new TabStateSync<string>('early', options);
+        const Early = () => {
+            const [value, setValue] = useTabStateSync('early', 'initial', options);
+            const written = React.useRef(false);
+            // Writes during the first layout effect, before the store subscription exists
+            React.useLayoutEffect(() => {
+                if (!written.current) {
+                    written.current = true;
+                    setValue('early write');
+                }
+            }, [setValue]);
+            return value;
+        };
+        const { result, unmount } = renderHook(() => Early());
+
+        await tick();
+
+        expect(result.current).toBe('early write');
+        expect(other.get()).toBe('early write');
+        unmount();
+        other.destroy();
     });
 
-    it('should memoize the set function with useCallback', () => {
-        // Configurando spy no useCallback
-        const callbackSpy = vi.spyOn(React, 'useCallback');
+    it('should keep the instance when inline options are passed', async () => {
+        const transport = vi.fn((key: string) => new MemoryTransport(key));
+        const { result, unmount } = renderHook(() => useTabStateSync('inline', 0, {
+            transport: (key) => transport(key),
+            onError() {}
+        }));
 
-        // Chamada do hook
-        useTabStateSync('test-key', 'value');
+        act(() => result.current[1](5));
+        await tick();
 
-        // Verificação
-        expect(callbackSpy).toHaveBeenCalled();
+        expect(result.current[0]).toBe(5);
+        expect(transport).toHaveBeenCalledTimes(1);
+        unmount();
     });
-}); 
\ No newline at end of file
+
+    it('should call the callbacks of the latest render', async () => {
+        const first = vi.fn();
+        const second = vi.fn();
+        const { rerender, unmount } = renderHook(
+            ({ onError }) => useTabStateSync('callbacks', 0, { ...options, validate: (v): v is number => typeof v === 'number', onError }),
+            { initialProps: { onError: first } }
+        );
+        rerender({ onError: second });
+
+        const other = new TabStateSync<unknown>('callbacks', options);
+        act(() => other.set('not a number'));
+        await tick();
+
+        expect(first).not.toHaveBeenCalled();
+        expect(second.mock.calls[0][0]).toMatchObject({ code: 'VALIDATION' });
+        unmount();
+        other.destroy();
+    });
+
+    it('should recreate the instance when a primitive option changes', () => {
+        const transport = vi.fn((key: string) => new MemoryTransport(key));
+        const { rerender, unmount } = renderHook(
+            ({ namespace }) => useTabStateSync('options', 0, { transport, namespace }),
+            { initialProps: { namespace: 'a' } }
+        );
+
+        rerender({ namespace: 'a' });
+        expect(transport).toHaveBeenCalledTimes(1);
+
+        rerender({ namespace: 'b' });
+        expect(transport).toHaveBeenCalledTimes(2);
+        expect(transport).toHaveBeenLastCalledWith('b:options');
+        unmount();
+    });
+
+    it('should render the initial value on the server', () => {
+        delete (global as any).window;
+        const Server = () => {
+            const [value, setValue] = useTabStateSync('ssr', 'server value', options);
+            setValue('ignored');
+            return React.createElement('span', null, value);
+        };
+
+        expect(renderToString(React.createElement(Server))).toBe('<span>server value</span>');
+    });
+});
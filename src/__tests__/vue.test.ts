@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { effectScope, nextTick } from 'vue';
+import { useTabState } from '../vue';
+import { TabStateSync, TabStateSyncOptions } from '../TabStateSync';
+import { MemoryTransport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+const options: TabStateSyncOptions<any> = { transport: (key) => new MemoryTransport(key) };
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('vue useTabState', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should sync the ref with other tabs', async () => {
+    const other = new TabStateSync<{ theme: string }>('prefs', options);
+    const scope = effectScope();
+    const prefs = scope.run(() => useTabState('prefs', { theme: 'light' }, options))!;
+
+    prefs.value = { theme: 'dark' };
+    await tick();
+    expect(other.get()).toEqual({ theme: 'dark' });
+
+    prefs.value.theme = 'blue';
+    await tick();
+    expect(other.get()).toEqual({ theme: 'blue' });
+
+    other.set({ theme: 'green' });
+    await tick();
+    expect(prefs.value).toEqual({ theme: 'green' });
+
+    scope.stop();
+    other.destroy();
+  });
+
+  it('should not send received values back', async () => {
+    const other = new TabStateSync<number>('echo', options);
+    const scope = effectScope();
+    const count = scope.run(() => useTabState('echo', 0, options))!;
+    const set = vi.spyOn(TabStateSync.prototype, 'set');
+
+    other.set(3);
+    await tick();
+    await nextTick();
+
+    expect(count.value).toBe(3);
+    expect(set).toHaveBeenCalledTimes(1);
+    set.mockRestore();
+    scope.stop();
+    other.destroy();
+  });
+
+  it('should destroy the instance with its scope', () => {
+    const destroy = vi.spyOn(TabStateSync.prototype, 'destroy');
+    const scope = effectScope();
+    scope.run(() => useTabState('scoped', 0, options));
+
+    scope.stop();
+
+    expect(destroy).toHaveBeenCalledTimes(1);
+    destroy.mockRestore();
+  });
+});
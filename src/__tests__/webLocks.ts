@@ -0,0 +1,35 @@
+/**
+ * Minimal in-process Web Locks implementation granting exclusive locks in request order.
+ * The next request is granted as soon as the lock is released, and a request still waiting
+ * is rejected when its signal aborts.
+ */
+export function createLockManager() {
+  const queues = new Map<string, Array<() => void>>();
+  return {
+    request<R>(
+      name: string,
+      ...args: [() => R | Promise<R>] | [{ signal?: AbortSignal }, () => R | Promise<R>]
+    ): Promise<R> {
+      const [opts, callback] = args.length === 1 ? [{}, args[0]] : args;
+      return new Promise<R>((resolve, reject) => {
+        const queue = queues.get(name) ?? [];
+        queues.set(name, queue);
+        const run = () => {
+          Promise.resolve().then(callback).then(resolve, reject).then(() => {
+            queue.shift();
+            queue[0]?.();
+          });
+        };
+        opts.signal?.addEventListener('abort', () => {
+          const index = queue.indexOf(run);
+          if (index > 0) {
+            queue.splice(index, 1);
+            reject(new Error('AbortError'));
+          }
+        });
+        queue.push(run);
+        if (queue.length === 1) run();
+      });
+    }
+  };
+}
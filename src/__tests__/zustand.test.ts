@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createStore } from 'zustand/vanilla';
+import { tabSync } from '../zustand';
+import { TabStateSync } from '../TabStateSync';
+import { MemoryTransport, Transport } from '../transports';
+
+import { JSDOM } from 'jsdom';
+
+let dom: JSDOM;
+
+interface CounterState {
+  count: number;
+  draft: string;
+  increment: () => void;
+}
+
+const transport = (key: string) => new MemoryTransport(key);
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function createCounter(options: Partial<Parameters<typeof tabSync<CounterState>>[1]> = {}) {
+  return createStore<CounterState>()(tabSync((set) => ({
+    count: 0,
+    draft: '',
+    increment: () => set((state) => ({ count: state.count + 1 }))
+  }), { name: 'counter', transport, ...options }));
+}
+
+describe('zustand tabSync', () => {
+  beforeEach(() => {
+    dom = new JSDOM('', { url: 'http://localhost' });
+    (global as any).window = dom.window;
+    (global as any).localStorage = dom.window.localStorage;
+  });
+
+  afterEach(() => {
+    dom.window.close();
+  });
+
+  it('should sync state changes between stores', async () => {
+    const a = createCounter();
+    const b = createCounter();
+
+    a.getState().increment();
+    await tick();
+
+    expect(b.getState().count).toBe(1);
+    expect(typeof b.getState().increment).toBe('function');
+  });
+
+  it('should only sync the partialized state', async () => {
+    const partialize = (state: CounterState) => ({ count: state.count });
+    const a = createCounter({ name: 'partial', partialize });
+    const b = createCounter({ name: 'partial', partialize });
+
+    a.setState({ draft: 'local only', count: 5 });
+    await tick();
+
+    expect(b.getState()).toMatchObject({ count: 5, draft: '' });
+  });
+
+  it('should not send received states back', async () => {
+    const sent: unknown[] = [];
+    const recording = (key: string): Transport => {
+      const inner = new MemoryTransport(key);
+      return {
+        send: (data) => { sent.push(data); inner.send(data); },
+        onMessage: (handler) => inner.onMessage(handler),
+        close: () => inner.close()
+      };
+    };
+    const a = createCounter({ name: 'echo' });
+    createCounter({ name: 'echo', transport: recording });
+
+    a.getState().increment();
+    await tick();
+
+    expect(sent.filter((data) => JSON.parse(data as string).type === 'value')).toHaveLength(0);
+  });
+
+  it('should hydrate from the shared state when created', () => {
+    const stored = (): Transport => ({
+      send: () => {},
+      onMessage: () => {},
+      read: () => JSON.stringify({ type: 'value', value: { count: 7 }, ts: Date.now(), v: 1, clock: 1, tab: 'other' }),
+      close: () => {}
+    });
+    const store = createCounter({ transport: stored });
+
+    expect(store.getState().count).toBe(7);
+  });
+
+  it('should not write when nothing synced changed', () => {
+    const set = vi.spyOn(TabStateSync.prototype, 'set');
+    const store = createCounter({ name: 'unchanged', partialize: (state) => ({ count: state.count }) });
+
+    store.setState({ draft: 'typing' });
+
+    expect(set).not.toHaveBeenCalled();
+    set.mockRestore();
+  });
+});
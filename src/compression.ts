@@ -0,0 +1,158 @@
+import { base64ToBytes, bytesToBase64 } from './crypto';
+
+/**
+ * Compression of large payloads, used to stay within the localStorage quota.
+ * Compressed payloads start with a prefix naming the codec, so every tab can decode them:
+ * - `deflate1:` base64 of deflate data, produced with CompressionStream
+ * - `lzw1:` LZW codes stored as UTF-16 characters, the pure TypeScript fallback
+ * Payloads without a prefix are not compressed.
+ */
+
+const DEFLATE_PREFIX = 'deflate1:';
+const LZW_PREFIX = 'lzw1:';
+
+/**
+ * Largest LZW code. Codes are stored as single UTF-16 characters below the surrogate range.
+ */
+const MAX_CODE = 0xd7ff;
+
+/**
+ * Configuration options for compression
+ */
+export interface CompressionOptions {
+  /**
+   * Payloads shorter than this many characters are sent as they are
+   * @default 1024
+   */
+  threshold?: number;
+}
+
+function hasCompressionStreams(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+async function pipe(data: BlobPart, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function codesToString(codes: number[]): string {
+  let result = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < codes.length; i += 8192) {
+    result += String.fromCharCode.apply(null, codes.slice(i, i + 8192));
+  }
+  return result;
+}
+
+/**
+ * LZW over the UTF-8 bytes of the text. The dictionary restarts when all codes are used.
+ */
+export function lzwCompress(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const dictionary = new Map<number, number>();
+  const codes: number[] = [];
+  let next = 256;
+  let current = -1;
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (current === -1) {
+      current = byte;
+      continue;
+    }
+    const code = dictionary.get(current * 256 + byte);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+    codes.push(current);
+    if (next <= MAX_CODE) {
+      dictionary.set(current * 256 + byte, next++);
+    } else {
+      dictionary.clear();
+      next = 256;
+    }
+    current = byte;
+  }
+  if (current !== -1) codes.push(current);
+  return codesToString(codes);
+}
+
+/**
+ * Reverses lzwCompress
+ */
+export function lzwDecompress(data: string): string {
+  // Entries are byte sequences stored as binary strings
+  let dictionary: string[] = [];
+  let next = 256;
+  let previous = '';
+  let result = '';
+
+  for (let i = 0; i < data.length; i++) {
+    const code = data.charCodeAt(i);
+    let entry: string;
+    if (code < 256) {
+      entry = String.fromCharCode(code);
+    } else if (dictionary[code] !== undefined) {
+      entry = dictionary[code];
+    } else if (code === next && previous) {
+      entry = previous + previous[0];
+    } else {
+      throw new Error(`Invalid LZW code: ${code}`);
+    }
+    result += entry;
+
+    if (previous) {
+      if (next <= MAX_CODE) {
+        dictionary[next++] = previous + entry[0];
+      } else {
+        dictionary = [];
+        next = 256;
+      }
+    }
+    previous = entry;
+  }
+
+  const bytes = new Uint8Array(result.length);
+  for (let i = 0; i < result.length; i++) {
+    bytes[i] = result.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Compresses a payload with CompressionStream when available, LZW otherwise.
+ * Returns the payload unchanged if compression does not make it shorter.
+ */
+export async function compress(text: string): Promise<string> {
+  const compressed = hasCompressionStreams()
+    ? DEFLATE_PREFIX + bytesToBase64(await pipe(new TextEncoder().encode(text), new CompressionStream('deflate')))
+    : LZW_PREFIX + lzwCompress(text);
+  return compressed.length < text.length ? compressed : text;
+}
+
+/**
+ * Checks whether a payload was produced by compress()
+ */
+export function isCompressed(text: string): boolean {
+  return text.startsWith(DEFLATE_PREFIX) || text.startsWith(LZW_PREFIX);
+}
+
+/**
+ * Decompresses a payload produced by compress(). Payloads without a codec prefix are returned as they are.
+ * LZW payloads are decoded synchronously.
+ */
+export function decompress(text: string): string | Promise<string> {
+  if (text.startsWith(LZW_PREFIX)) {
+    return lzwDecompress(text.slice(LZW_PREFIX.length));
+  }
+  if (text.startsWith(DEFLATE_PREFIX)) {
+    if (!hasCompressionStreams()) {
+      return Promise.reject(new Error('Decompressing deflate payloads requires DecompressionStream'));
+    }
+    return pipe(base64ToBytes(text.slice(DEFLATE_PREFIX.length)), new DecompressionStream('deflate'))
+      .then((bytes) => new TextDecoder().decode(bytes));
+  }
+  return text;
+}
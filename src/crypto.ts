@@ -0,0 +1,139 @@
+/**
+ * Authenticated encryption helpers for TabStateSync, built on the WebCrypto API.
+ */
+
+/**
+ * Prefix identifying AES-GCM payloads. Legacy XOR payloads are plain base64,
+ * which never contains ':', so the two formats cannot be confused.
+ */
+const AES_GCM_PREFIX = 'aesgcm1:';
+const IV_LENGTH = 12;
+const PBKDF2_ITERATIONS = 100000;
+
+/**
+ * Encrypts and decrypts message payloads
+ */
+export interface Cipher {
+  encrypt(text: string): Promise<string>;
+  /**
+   * Rejects if the payload was tampered with or encrypted with another key
+   */
+  decrypt(text: string): Promise<string>;
+}
+
+// Derived keys are cached so instances sharing a secret only run PBKDF2 once
+const derivedKeys = new Map<string, Promise<CryptoKey>>();
+
+function getSubtle(): SubtleCrypto {
+  const subtle = typeof globalThis.crypto !== 'undefined' ? globalThis.crypto.subtle : undefined;
+  if (!subtle) {
+    throw new Error('[TabStateSync] Encryption requires the WebCrypto API (crypto.subtle), which is only available in secure contexts');
+  }
+  return subtle;
+}
+
+/**
+ * Encodes binary data as base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 into binary data
+ */
+export function base64ToBytes(text: string) {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2
+ */
+function deriveKey(subtle: SubtleCrypto, secret: string, salt: string): Promise<CryptoKey> {
+  const cacheKey = `${salt}\u0000${secret}`;
+  let key = derivedKeys.get(cacheKey);
+  if (!key) {
+    const encoder = new TextEncoder();
+    key = subtle
+      .importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveKey'])
+      .then((material) => subtle.deriveKey(
+        { name: 'PBKDF2', salt: encoder.encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      ));
+    // Do not cache failures, so a later instance can retry
+    key.catch(() => derivedKeys.delete(cacheKey));
+    derivedKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+/**
+ * Creates an AES-GCM cipher. A fresh random IV is used for every message.
+ * @param secret Passphrase (derived with PBKDF2) or an AES-GCM CryptoKey
+ * @param salt Salt for key derivation, must be identical in every tab
+ */
+export function createAesGcmCipher(secret: string | CryptoKey, salt: string): Cipher {
+  const subtle = getSubtle();
+  let key: Promise<CryptoKey> | undefined;
+  const getKey = () => {
+    if (!key) {
+      key = typeof secret === 'string' ? deriveKey(subtle, secret, salt) : Promise.resolve(secret);
+    }
+    return key;
+  };
+
+  return {
+    async encrypt(text: string): Promise<string> {
+      const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+      const ciphertext = await subtle.encrypt({ name: 'AES-GCM', iv }, await getKey(), new TextEncoder().encode(text));
+      const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+      payload.set(iv);
+      payload.set(new Uint8Array(ciphertext), IV_LENGTH);
+      return AES_GCM_PREFIX + bytesToBase64(payload);
+    },
+    async decrypt(text: string): Promise<string> {
+      if (!isAesGcmPayload(text)) {
+        throw new Error('Payload is not AES-GCM encrypted');
+      }
+      const payload = base64ToBytes(text.slice(AES_GCM_PREFIX.length));
+      const plaintext = await subtle.decrypt(
+        { name: 'AES-GCM', iv: payload.subarray(0, IV_LENGTH) },
+        await getKey(),
+        payload.subarray(IV_LENGTH)
+      );
+      return new TextDecoder().decode(plaintext);
+    }
+  };
+}
+
+/**
+ * Checks whether a payload was produced by an AES-GCM cipher
+ */
+export function isAesGcmPayload(text: string): boolean {
+  return text.startsWith(AES_GCM_PREFIX);
+}
+
+/**
+ * Decodes data written by versions that used the repeating-key XOR cipher.
+ * Only used to migrate existing localStorage data.
+ */
+export function decryptLegacyXor(text: string, key: string): string {
+  const decoded = atob(text);
+  let result = '';
+  for (let i = 0; i < decoded.length; i++) {
+    result += String.fromCharCode(decoded.charCodeAt(i) ^ key.charCodeAt(i % key.length));
+  }
+  return result;
+}
@@ -0,0 +1,55 @@
+/**
+ * What went wrong:
+ * - `QUOTA`: the storage quota is exceeded, the value was not shared
+ * - `TRANSPORT`: the transport could not be created or failed, the instance fell back to in-memory mode
+ * - `PARSE`: received or stored data could not be parsed or decompressed, or is not a TabStateSync message
+ * - `DECRYPT`: received or stored data could not be decrypted, or was not encrypted
+ * - `ENCRYPT`: a value could not be encrypted, it was not shared
+ * - `SERIALIZE`: a value could not be serialized, it was not shared nor persisted
+ * - `VALIDATION`: a value was rejected by the `validate` or `schema` option
+ * - `VERSION`: data was written with a newer `version`
+ * - `MIGRATION`: a migration threw
+ * - `PERSIST`: the value could not be persisted or restored
+ * - `TIMEOUT`: no tab answered a TabRpc call, finished an AuthSync refresh or released a lock in time
+ * - `REMOTE`: the handler of a TabRpc call, or an AuthSync refresh, failed in the other tab
+ * - `CLOSED`: the instance was destroyed before a TabRpc call was answered or another tab finished an AuthSync refresh
+ */
+export type TabStateSyncErrorCode =
+  | 'QUOTA'
+  | 'TRANSPORT'
+  | 'PARSE'
+  | 'DECRYPT'
+  | 'ENCRYPT'
+  | 'SERIALIZE'
+  | 'VALIDATION'
+  | 'VERSION'
+  | 'MIGRATION'
+  | 'PERSIST'
+  | 'TIMEOUT'
+  | 'REMOTE'
+  | 'CLOSED';
+
+/**
+ * Error reported to the `onError` option, or rejecting a TabRpc call
+ */
+export class TabStateSyncError extends Error {
+  /**
+   * @param code What went wrong
+   * @param message Human-readable description
+   * @param cause The underlying error, or the rejected data
+   */
+  constructor(public readonly code: TabStateSyncErrorCode, message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'TabStateSyncError';
+  }
+}
+
+/**
+ * Checks whether an error thrown by localStorage means the quota is exceeded.
+ * Browsers use different names and codes for it.
+ */
+export function isQuotaError(err: unknown): boolean {
+  if (!err || typeof err !== 'object') return false;
+  const { name, code } = err as { name?: string; code?: number };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
@@ -0,0 +1,9 @@
+/**
+ * Creates a random identifier, used to tell tabs and requests apart
+ */
+export function createId(): string {
+  if (typeof globalThis.crypto !== 'undefined' && typeof globalThis.crypto.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
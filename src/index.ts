@@ -1,5 +1,35 @@
-import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
-import { useTabStateSync } from './useTabStateSync';
+import { ConflictResolution, ConflictResolver, Migrations, ResyncOptions, SyncGap, TabStateSync, TabStateSyncOptions, UpdateOptions, Updater } from './TabStateSync';
+import { applyPatch, createPatch, JsonPatchOperation } from './jsonPatch';
+import { PeerInfo, PresenceOptions } from './presence';
+import { jsonSerializer, richSerializer, Serializer } from './serializers';
+import { CompressionOptions } from './compression';
+import { TabStateSyncError, TabStateSyncErrorCode } from './errors';
+import { PersistMode, PersistOptions } from './persistence';
+import { createIndexedDbStore, IndexedDbStore } from './indexedDb';
+import { StandardSchemaIssue, StandardSchemaResult, StandardSchemaV1 } from './standardSchema';
+import { TabLeader, TabLeaderOptions } from './TabLeader';
+import { TabStore, TabStoreOptions } from './TabStore';
+import { RpcCallOptions, RpcHandler, TabRpc, TabRpcOptions } from './TabRpc';
+import { EventHandler, TabEventBus, TabEventBusOptions } from './TabEventBus';
+import { AuthSync, AuthSyncOptions } from './AuthSync';
+import { withLock, WithLockOptions } from './lock';
+import {
+  createSharedWorkerTransport,
+  SHARED_WORKER_SOURCE,
+  SharedWorkerTransport,
+  SharedWorkerTransportOptions
+} from './sharedWorker';
+import {
+  BroadcastChannelTransport,
+  createDefaultTransport,
+  IndexedDbTransport,
+  MemoryTransport,
+  PollingStorageTransport,
+  StorageEventTransport,
+  Transport,
+  TransportFactory,
+  TransportSendOptions
+} from './transports';
 
 /**
  * Creates a new TabStateSync instance for a given key/channel.
@@ -7,8 +37,53 @@ import { useTabStateSync } from './useTabStateSync';
  * @param options Configuration options for TabStateSync.
  * @returns TabStateSync instance for the given key.
  */
-export function createTabStateSync<T = any>(key: string, options?: TabStateSyncOptions) {
+export function createTabStateSync<T = any>(key: string, options?: TabStateSyncOptions<T>) {
   return new TabStateSync<T>(key, options);
 }
 
-export { TabStateSync, TabStateSyncOptions, useTabStateSync }; 
\ No newline at end of file
+/**
+ * Creates a new TabStore syncing many keys over a single channel.
+ * @param defaults Default value of every key.
+ * @param options Configuration options for TabStore.
+ * @returns TabStore instance for the given keys.
+ */
+export function createTabStore<S extends Record<string, unknown>>(defaults: S, options?: TabStoreOptions<S>) {
+  return new TabStore<S>(defaults, options);
+}
+
+/**
+ * Creates a new AuthSync sharing the login session between tabs.
+ * @param options Configuration options for AuthSync.
+ * @returns AuthSync instance for the session.
+ */
+export function createAuthSync<S = unknown>(options?: AuthSyncOptions<S>) {
+  return new AuthSync<S>(options);
+}
+
+export { ConflictResolution, ConflictResolver, Migrations, ResyncOptions, SyncGap, TabStateSync, TabStateSyncOptions, UpdateOptions, Updater };
+export { applyPatch, createPatch, JsonPatchOperation };
+export { TabLeader, TabLeaderOptions };
+export { TabStore, TabStoreOptions };
+export { RpcCallOptions, RpcHandler, TabRpc, TabRpcOptions };
+export { EventHandler, TabEventBus, TabEventBusOptions };
+export { AuthSync, AuthSyncOptions };
+export { withLock, WithLockOptions };
+export { PeerInfo, PresenceOptions };
+export { jsonSerializer, richSerializer, Serializer };
+export { CompressionOptions };
+export { TabStateSyncError, TabStateSyncErrorCode };
+export { PersistMode, PersistOptions };
+export { createIndexedDbStore, IndexedDbStore };
+export { StandardSchemaIssue, StandardSchemaResult, StandardSchemaV1 };
+export {
+  BroadcastChannelTransport,
+  createDefaultTransport,
+  IndexedDbTransport,
+  MemoryTransport,
+  PollingStorageTransport,
+  StorageEventTransport,
+  Transport,
+  TransportFactory,
+  TransportSendOptions
+};
+export { createSharedWorkerTransport, SHARED_WORKER_SOURCE, SharedWorkerTransport, SharedWorkerTransportOptions };
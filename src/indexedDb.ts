@@ -0,0 +1,65 @@
+/**
+ * Minimal promise wrapper around IndexedDB: one database with one object store of values by key
+ */
+
+const DB_NAME = 'tabstatesync';
+const STORE_NAME = 'state';
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+function request<R>(req: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Opens the database, creating the object store on first use. Connections are shared.
+ */
+function openDatabase(name: string): Promise<IDBDatabase> {
+  let db = databases.get(name);
+  if (!db) {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+    const req = indexedDB.open(name, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME);
+    db = request(req).then((database) => {
+      // Let other tabs upgrade the database later
+      database.onversionchange = () => {
+        database.close();
+        databases.delete(name);
+      };
+      return database;
+    });
+    // Do not cache failures, so a later call can retry
+    db.catch(() => databases.delete(name));
+    databases.set(name, db);
+  }
+  return db;
+}
+
+/**
+ * Reads, writes and deletes structured-clonable values by key
+ */
+export interface IndexedDbStore {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Creates a store backed by the `state` object store of an IndexedDB database
+ * @param dbName Name of the database
+ */
+export function createIndexedDbStore(dbName = DB_NAME): IndexedDbStore {
+  const run = <R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> =>
+    openDatabase(dbName).then((db) => request(operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))));
+
+  return {
+    get: (key) => run('readonly', (store) => store.get(key)),
+    set: (key, value) => run('readwrite', (store) => store.put(value, key)).then(() => undefined),
+    delete: (key) => run('readwrite', (store) => store.delete(key))
+  };
+}
@@ -0,0 +1,59 @@
+import { atom } from 'jotai/vanilla';
+import type { WritableAtom } from 'jotai/vanilla';
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+
+type SetStateAction<T> = T | ((current: T) => T);
+
+const UNSET = Symbol('unset');
+
+/**
+ * Creates a Jotai atom synced with the other tabs.
+ * Its first read returns the value already shared by the other tabs, falling back to `initialValue`.
+ * The TabStateSync instance is released when no component uses the atom anymore.
+ * @param key Unique key/channel for the sync.
+ * @param initialValue Value used while no tab has written one, and on the server.
+ * @param options Configuration options for TabStateSync.
+ */
+export function atomWithTabSync<T>(
+  key: string,
+  initialValue: T,
+  options?: TabStateSyncOptions<T>
+): WritableAtom<T, [SetStateAction<T>], void> {
+  let sync: TabStateSync<T> | null = null;
+  const getSync = () => {
+    if (!sync && typeof window !== 'undefined') {
+      sync = new TabStateSync<T>(key, options);
+    }
+    return sync;
+  };
+  const read = (value: T | typeof UNSET): T => {
+    if (value !== UNSET) return value;
+    const stored = getSync()?.get();
+    return stored === undefined ? initialValue : stored;
+  };
+
+  // Holds values received from other tabs and written locally
+  const baseAtom = atom<T | typeof UNSET>(UNSET);
+  baseAtom.onMount = (setValue) => {
+    const current = getSync();
+    if (!current) return;
+    // Values received from other tabs only update the atom, so they are never sent back
+    const unsubscribe = current.subscribe((value) => setValue(value));
+    return () => {
+      unsubscribe();
+      current.destroy();
+      if (sync === current) sync = null;
+    };
+  };
+
+  return atom(
+    (get) => read(get(baseAtom)),
+    (get, set, update: SetStateAction<T>) => {
+      const next = typeof update === 'function'
+        ? (update as (current: T) => T)(read(get(baseAtom)))
+        : update;
+      set(baseAtom, next);
+      getSync()?.set(next);
+    }
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * Minimal RFC 6902 JSON Patch implementation used for delta updates
+ */
+
+/**
+ * A JSON Patch operation (RFC 6902)
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+type Container = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!isContainer(value) || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function escapePathSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Splits a JSON Pointer (RFC 6901) into its unescaped segments
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return pointer.slice(1).split('/').map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function getChild(container: unknown, segment: string): unknown {
+  if (!isContainer(container)) {
+    throw new Error(`Cannot read "${segment}" of a non-container value`);
+  }
+  return (container as Record<string, unknown>)[segment];
+}
+
+function shallowCopy(container: Container): Container {
+  return Array.isArray(container) ? container.slice() : { ...container };
+}
+
+function arrayIndex(array: unknown[], segment: string, allowEnd: boolean): number {
+  if (allowEnd && segment === '-') return array.length;
+  const index = Number(segment);
+  const max = allowEnd ? array.length : array.length - 1;
+  if (!/^(0|[1-9]\d*)$/.test(segment) || index > max) {
+    throw new Error(`Invalid array index: ${segment}`);
+  }
+  return index;
+}
+
+/**
+ * Returns a copy of `doc` where the parent of `segments` was replaced by the result of `edit`.
+ * Containers along the path are copied, the original document is never mutated.
+ */
+function editAt(doc: unknown, segments: string[], edit: (parent: Container, key: string) => void): unknown {
+  const [head, ...rest] = segments;
+  if (!isContainer(doc)) {
+    throw new Error(`Path segment "${head}" does not exist`);
+  }
+  const copy = shallowCopy(doc);
+  if (rest.length === 0) {
+    edit(copy, head);
+  } else {
+    const child = Array.isArray(copy) ? copy[arrayIndex(copy, head, false)] : getChild(copy, head);
+    (copy as Record<string, unknown>)[head] = editAt(child, rest, edit);
+  }
+  return copy;
+}
+
+function getValue(doc: unknown, pointer: string): unknown {
+  return parsePointer(pointer).reduce<unknown>((node, segment) => {
+    if (Array.isArray(node)) return node[arrayIndex(node, segment, false)];
+    if (!isContainer(node) || !Object.prototype.hasOwnProperty.call(node, segment)) {
+      throw new Error(`Path does not exist: ${pointer}`);
+    }
+    return (node as Record<string, unknown>)[segment];
+  }, doc);
+}
+
+function add(doc: unknown, pointer: string, value: unknown): unknown {
+  const segments = parsePointer(pointer);
+  if (segments.length === 0) return value;
+  return editAt(doc, segments, (parent, key) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, key, true), 0, value);
+    } else {
+      parent[key] = value;
+    }
+  });
+}
+
+function remove(doc: unknown, pointer: string): unknown {
+  const segments = parsePointer(pointer);
+  if (segments.length === 0) return undefined;
+  return editAt(doc, segments, (parent, key) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, key, false), 1);
+    } else {
+      if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+        throw new Error(`Path does not exist: ${pointer}`);
+      }
+      delete parent[key];
+    }
+  });
+}
+
+function replace(doc: unknown, pointer: string, value: unknown): unknown {
+  const segments = parsePointer(pointer);
+  if (segments.length === 0) return value;
+  return editAt(doc, segments, (parent, key) => {
+    if (Array.isArray(parent)) {
+      parent[arrayIndex(parent, key, false)] = value;
+    } else {
+      if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+        throw new Error(`Path does not exist: ${pointer}`);
+      }
+      parent[key] = value;
+    }
+  });
+}
+
+/**
+ * Deep equality for JSON-like values
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]));
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+}
+
+/**
+ * Applies a JSON Patch and returns the patched document. The input is not mutated.
+ * Throws if an operation cannot be applied or a `test` operation fails.
+ */
+export function applyPatch<T>(doc: T, patch: JsonPatchOperation[]): T {
+  let result: unknown = doc;
+  for (const operation of patch) {
+    switch (operation.op) {
+      case 'add':
+        result = add(result, operation.path, operation.value);
+        break;
+      case 'remove':
+        result = remove(result, operation.path);
+        break;
+      case 'replace':
+        result = replace(result, operation.path, operation.value);
+        break;
+      case 'move': {
+        const value = getValue(result, operation.from);
+        result = add(remove(result, operation.from), operation.path, value);
+        break;
+      }
+      case 'copy':
+        result = add(result, operation.path, getValue(result, operation.from));
+        break;
+      case 'test':
+        if (!deepEqual(getValue(result, operation.path), operation.value)) {
+          throw new Error(`Test operation failed at ${operation.path}`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown patch operation: ${(operation as { op: string }).op}`);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Computes a JSON Patch turning `from` into `to`.
+ * Plain objects and arrays are compared recursively; other values are replaced as a whole.
+ */
+export function createPatch(from: unknown, to: unknown, path = ''): JsonPatchOperation[] {
+  if (Object.is(from, to)) return [];
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const ops: JsonPatchOperation[] = [];
+    const common = Math.min(from.length, to.length);
+    for (let i = 0; i < common; i++) {
+      ops.push(...createPatch(from[i], to[i], `${path}/${i}`));
+    }
+    // Remove from the end so that indexes stay valid
+    for (let i = from.length - 1; i >= to.length; i--) {
+      ops.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    for (let i = from.length; i < to.length; i++) {
+      ops.push({ op: 'add', path: `${path}/${i}`, value: to[i] });
+    }
+    return ops;
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const ops: JsonPatchOperation[] = [];
+    Object.keys(from).forEach((key) => {
+      const childPath = `${path}/${escapePathSegment(key)}`;
+      if (!Object.prototype.hasOwnProperty.call(to, key)) {
+        ops.push({ op: 'remove', path: childPath });
+      } else {
+        ops.push(...createPatch(from[key], to[key], childPath));
+      }
+    });
+    Object.keys(to).forEach((key) => {
+      if (!Object.prototype.hasOwnProperty.call(from, key)) {
+        ops.push({ op: 'add', path: `${path}/${escapePathSegment(key)}`, value: to[key] });
+      }
+    });
+    return ops;
+  }
+
+  if (deepEqual(from, to)) return [];
+  return [{ op: 'replace', path, value: to }];
+}
@@ -0,0 +1,190 @@
+import { TabStateSyncError } from './errors';
+import { createId } from './id';
+import { createDefaultTransport, TransportFactory } from './transports';
+
+/**
+ * Options for withLock
+ */
+export interface WithLockOptions {
+  /**
+   * Namespace prefix for the lock, like the TabStateSync option
+   * @default 'tss'
+   */
+  namespace?: string;
+
+  /**
+   * Time to wait for the lock, in milliseconds. Waiting longer rejects with a
+   * TabStateSyncError coded `TIMEOUT`.
+   * @default no limit
+   */
+  timeout?: number;
+
+  /**
+   * Without Web Locks, how long the lock stays held by a tab that stopped renewing it,
+   * for example because it was closed or frozen, in milliseconds
+   * @default 5000
+   */
+  leaseDuration?: number;
+
+  /**
+   * Use the Web Locks API when the browser supports it
+   * @default true
+   */
+  useWebLocks?: boolean;
+
+  /**
+   * Without Web Locks, creates the transport announcing released locks to waiting tabs.
+   * Receives the namespaced key.
+   * @default BroadcastChannel, or localStorage when it is not available
+   */
+  transport?: TransportFactory;
+}
+
+/**
+ * Lock held without Web Locks, stored under the lock key
+ */
+interface Lease {
+  owner: string;
+  until: number;
+}
+
+/**
+ * Time a tab waits after writing its lease before checking that no other tab overwrote it
+ */
+const SETTLE_DELAY = 20;
+
+/**
+ * Leases of pages where localStorage is unavailable; they only exclude callers of the same page
+ */
+const memoryLeases: Map<string, Lease> = new Map();
+
+function readLease(key: string): Lease | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return memoryLeases.get(key) ?? null;
+  }
+}
+
+function writeLease(key: string, lease: Lease | null): void {
+  try {
+    if (lease) {
+      localStorage.setItem(key, JSON.stringify(lease));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch {
+    if (lease) {
+      memoryLeases.set(key, lease);
+    } else {
+      memoryLeases.delete(key);
+    }
+  }
+}
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `fn` while no other tab holds the lock of the same name, and resolves with its result.
+ * Callers wait for the lock in turn, in this tab as in the others, and the lock is released
+ * when `fn` settles, even if it throws.
+ *
+ * Uses the Web Locks API when available, so the browser releases the lock of a closed tab.
+ * Otherwise a lease with an expiry is written to localStorage and renewed while `fn` runs;
+ * tabs waiting for it are woken over a channel when it is released, and take it over
+ * once it expires if its holder was closed or frozen.
+ *
+ * @param name Name of the lock, shared by every tab of the origin
+ * @param fn Function to run while holding the lock
+ * @param options Timeout, lease duration and transport
+ */
+export function withLock<R>(name: string, fn: () => R | Promise<R>, options: WithLockOptions = {}): Promise<R> {
+  const { namespace = 'tss', timeout, leaseDuration = 5000, useWebLocks = true, transport } = options;
+  if (useWebLocks && typeof navigator !== 'undefined' && navigator.locks) {
+    return withWebLock(`tabstatesync:lock:${namespace}:${name}`, fn, timeout);
+  }
+  return withLease(`${namespace}:${name}#lock`, fn, timeout, leaseDuration, transport);
+}
+
+function withWebLock<R>(lockName: string, fn: () => R | Promise<R>, timeout: number | undefined): Promise<R> {
+  const controller = new AbortController();
+  const timer = timeout === undefined ? undefined : setTimeout(() => controller.abort(), timeout);
+  // request() resolves with the result of the promise returned by the callback
+  const granted = navigator.locks.request(lockName, { signal: controller.signal }, () => {
+    clearTimeout(timer);
+    return fn();
+  }) as unknown as Promise<R>;
+  return granted.catch((err) => {
+    if (controller.signal.aborted) {
+      throw new TabStateSyncError('TIMEOUT', `Lock ${lockName} was not granted within ${timeout} ms`, err);
+    }
+    throw err;
+  });
+}
+
+async function withLease<R>(
+  key: string,
+  fn: () => R | Promise<R>,
+  timeout: number | undefined,
+  leaseDuration: number,
+  transport: TransportFactory | undefined
+): Promise<R> {
+  const owner = createId();
+  const channelKey = `${key}:release`;
+  const channel = transport ? transport(channelKey) : createDefaultTransport(channelKey, channelKey);
+  let wake: (() => void) | null = null;
+  channel.onMessage(() => wake?.());
+
+  // Sleeps until the lease expires, or until its holder announces it released it
+  const wait = (ms: number) => new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      wake = null;
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    wake = done;
+  });
+
+  const deadline = timeout === undefined ? Infinity : Date.now() + timeout;
+  try {
+    for (;;) {
+      const lease = readLease(key);
+      if (!lease || lease.until <= Date.now()) {
+        writeLease(key, { owner, until: Date.now() + leaseDuration });
+        // Tabs claiming the lock at the same time overwrite each other, the last write wins
+        await delay(SETTLE_DELAY);
+        if (readLease(key)?.owner === owner) break;
+      }
+      const now = Date.now();
+      if (now >= deadline) {
+        throw new TabStateSyncError('TIMEOUT', `Lock ${key} was not released within ${timeout} ms`);
+      }
+      const expiry = readLease(key)?.until ?? now;
+      await wait(Math.max(Math.min(expiry, deadline) - now, SETTLE_DELAY));
+    }
+  } catch (err) {
+    channel.close();
+    throw err;
+  }
+
+  const renew = setInterval(() => {
+    if (readLease(key)?.owner === owner) {
+      writeLease(key, { owner, until: Date.now() + leaseDuration });
+    }
+  }, leaseDuration / 2);
+  const release = () => {
+    clearInterval(renew);
+    if (readLease(key)?.owner === owner) {
+      writeLease(key, null);
+    }
+    channel.send(JSON.stringify({ released: owner }), { retain: false });
+    channel.close();
+  };
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
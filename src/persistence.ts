@@ -0,0 +1,75 @@
+import { createIndexedDbStore } from './indexedDb';
+
+/**
+ * Where the last value is kept across reloads:
+ * - `none`: not persisted
+ * - `local`: localStorage, shared by the tabs of the origin
+ * - `session`: sessionStorage, survives reloads of the same tab
+ * - `indexeddb`: IndexedDB, for large values
+ */
+export type PersistMode = 'none' | 'local' | 'session' | 'indexeddb';
+
+/**
+ * Configuration options for persistence
+ */
+export interface PersistOptions {
+  /**
+   * Where to keep the value
+   */
+  mode: PersistMode;
+
+  /**
+   * Values written longer ago than this, in milliseconds, are dropped when read
+   */
+  ttl?: number;
+}
+
+/**
+ * Keeps the encoded value of a key. Storage-based stores are synchronous,
+ * so instances using them are hydrated in the constructor.
+ */
+export interface PersistenceStore {
+  read(): string | null | Promise<string | null>;
+  write(data: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Key under which a value is persisted, so it never collides with transport messages
+ */
+export function getPersistKey(key: string): string {
+  return `${key}#persist`;
+}
+
+function createStorageStore(storage: () => Storage, key: string): PersistenceStore {
+  return {
+    read: () => storage().getItem(key),
+    write: (data) => storage().setItem(key, data),
+    clear: () => storage().removeItem(key)
+  };
+}
+
+/**
+ * Creates the store for a persistence mode, or null for `none`
+ * @param mode Where to keep the value
+ * @param key Namespaced key
+ */
+export function createPersistenceStore(mode: PersistMode, key: string): PersistenceStore | null {
+  const persistKey = getPersistKey(key);
+  switch (mode) {
+    case 'local':
+      return createStorageStore(() => localStorage, persistKey);
+    case 'session':
+      return createStorageStore(() => sessionStorage, persistKey);
+    case 'indexeddb': {
+      const store = createIndexedDbStore();
+      return {
+        read: () => store.get(persistKey).then((data) => (typeof data === 'string' ? data : null)),
+        write: (data) => store.set(persistKey, data),
+        clear: () => store.delete(persistKey)
+      };
+    }
+    default:
+      return null;
+  }
+}
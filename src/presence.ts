@@ -0,0 +1,245 @@
+/**
+ * Information about another tab listening on the same key
+ */
+export interface PeerInfo<P = unknown> {
+  /**
+   * Tab ID of the peer, see TabStateSync.getTabId()
+   */
+  id: string;
+
+  /**
+   * URL of the page
+   */
+  url?: string;
+
+  /**
+   * Whether the page has focus
+   */
+  focused: boolean;
+
+  /**
+   * Whether the page is visible
+   */
+  visible: boolean;
+
+  /**
+   * User-defined payload, see TabStateSync.setPresenceData()
+   */
+  data?: P;
+
+  /**
+   * Time of the last message from the peer
+   */
+  lastSeen: number;
+}
+
+/**
+ * Configuration options for presence tracking
+ */
+export interface PresenceOptions<P = unknown> {
+  /**
+   * How often each tab announces itself, in milliseconds
+   * @default 5000
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * Peers not heard from for this long are removed, in milliseconds
+   * @default 15000
+   */
+  timeout?: number;
+
+  /**
+   * Initial user-defined payload shared with the other tabs
+   */
+  data?: P;
+}
+
+/**
+ * - `join`: a tab started listening, peers answer with `alive`
+ * - `alive`: heartbeat, also sent when focus or visibility changes
+ * - `leave`: a tab stopped listening
+ */
+type PresenceEvent = 'join' | 'alive' | 'leave';
+
+/**
+ * Presence payload carried by TabStateSync messages
+ */
+export interface PresenceMessage<P = unknown> {
+  event: PresenceEvent;
+  peer: Omit<PeerInfo<P>, 'lastSeen'>;
+}
+
+/**
+ * Tracks the other tabs listening on a key. Messages are sent and received by the owning TabStateSync.
+ */
+export class TabPresence<P = unknown> {
+  private peers: Map<string, PeerInfo<P>> = new Map();
+  private snapshots: Map<string, string> = new Map();
+  private callbacks: Set<(peers: PeerInfo<P>[]) => void> = new Set();
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private heartbeatInterval: number;
+  private timeout: number;
+  private data: P | undefined;
+
+  /**
+   * @param id Tab ID announced to the other tabs
+   * @param send Sends a presence message to the other tabs
+   * @param options Configuration options
+   */
+  constructor(
+    private id: string,
+    private send: (message: PresenceMessage<P>) => void,
+    options: PresenceOptions<P> = {}
+  ) {
+    this.heartbeatInterval = options.heartbeatInterval ?? 5000;
+    this.timeout = options.timeout ?? 15000;
+    this.data = options.data;
+  }
+
+  /**
+   * Announces this tab and starts the heartbeat
+   */
+  start() {
+    this.announce('join');
+    this.intervalId = setInterval(() => {
+      this.announce('alive');
+      this.prune();
+    }, this.heartbeatInterval);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('focus', this.onActivityChange);
+      window.addEventListener('blur', this.onActivityChange);
+      window.addEventListener('pagehide', this.onPageHide);
+      window.addEventListener('pageshow', this.onPageShow);
+    }
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.onActivityChange);
+    }
+  }
+
+  /**
+   * Says goodbye to the other tabs and stops the heartbeat
+   */
+  stop() {
+    this.announce('leave');
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('focus', this.onActivityChange);
+      window.removeEventListener('blur', this.onActivityChange);
+      window.removeEventListener('pagehide', this.onPageHide);
+      window.removeEventListener('pageshow', this.onPageShow);
+    }
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.onActivityChange);
+    }
+    this.peers.clear();
+    this.callbacks.clear();
+  }
+
+  /**
+   * Handles a presence message from another tab
+   */
+  handle(message: PresenceMessage<P>) {
+    const { event, peer } = message;
+    if (peer.id === this.id) return;
+
+    if (event === 'leave') {
+      this.snapshots.delete(peer.id);
+      if (this.peers.delete(peer.id)) this.emit();
+      return;
+    }
+
+    const isNew = !this.peers.has(peer.id);
+    const changed = this.hasChanged(peer);
+    this.peers.set(peer.id, { ...peer, lastSeen: Date.now() });
+    if (event === 'join') {
+      // Let the new tab know about this one right away
+      this.announce('alive');
+    }
+    if (isNew || changed) {
+      this.emit();
+    }
+  }
+
+  /**
+   * Returns the other tabs currently known
+   */
+  getPeers(): PeerInfo<P>[] {
+    return Array.from(this.peers.values());
+  }
+
+  /**
+   * Registers a callback called when peers join, leave or change their metadata
+   * @returns Function removing the callback
+   */
+  onChange(callback: (peers: PeerInfo<P>[]) => void): () => void {
+    this.callbacks.add(callback);
+    return () => { this.callbacks.delete(callback); };
+  }
+
+  /**
+   * Replaces the user-defined payload and announces it right away
+   */
+  setData(data: P) {
+    this.data = data;
+    this.announce('alive');
+  }
+
+  /**
+   * Heartbeats only notify subscribers when the peer's metadata changed
+   */
+  private hasChanged(peer: Omit<PeerInfo<P>, 'lastSeen'>): boolean {
+    const snapshot = JSON.stringify([peer.url, peer.focused, peer.visible, peer.data]);
+    const changed = this.snapshots.get(peer.id) !== snapshot;
+    this.snapshots.set(peer.id, snapshot);
+    return changed;
+  }
+
+  private announce(event: PresenceEvent) {
+    this.send({
+      event,
+      peer: {
+        id: this.id,
+        url: typeof location !== 'undefined' ? location.href : undefined,
+        focused: typeof document !== 'undefined' && typeof document.hasFocus === 'function' ? document.hasFocus() : false,
+        visible: typeof document !== 'undefined' ? document.visibilityState !== 'hidden' : true,
+        data: this.data
+      }
+    });
+  }
+
+  private prune() {
+    const now = Date.now();
+    let changed = false;
+    this.peers.forEach((peer, id) => {
+      if (now - peer.lastSeen > this.timeout) {
+        this.peers.delete(id);
+        this.snapshots.delete(id);
+        changed = true;
+      }
+    });
+    if (changed) this.emit();
+  }
+
+  private emit() {
+    const peers = this.getPeers();
+    this.callbacks.forEach((cb) => cb(peers));
+  }
+
+  private onActivityChange = () => {
+    this.announce('alive');
+  };
+
+  private onPageHide = () => {
+    this.announce('leave');
+  };
+
+  private onPageShow = (event: PageTransitionEvent) => {
+    // Restored from the back/forward cache
+    if (event.persisted) this.announce('join');
+  };
+}
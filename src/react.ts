@@ -0,0 +1,6 @@
+/**
+ * React hooks, published as the `tabstatesync/react` entry point so the main entry needs no framework.
+ */
+export { SetStateAction, useTabStateSync } from './useTabStateSync';
+export { useTabStateSelector } from './useTabStateSelector';
+export { useTabPresence } from './useTabPresence';
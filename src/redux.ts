@@ -0,0 +1,163 @@
+import type { Action, Reducer, StoreEnhancer, UnknownAction } from 'redux';
+import { createId } from './id';
+import { deepEqual } from './jsonPatch';
+import { TabEventBus } from './TabEventBus';
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+
+/**
+ * Action merging the slices received from another tab into the state
+ */
+export const TAB_SYNC_HYDRATE = '@@tabstatesync/HYDRATE';
+
+/**
+ * Configuration options for the Redux tabSyncEnhancer
+ */
+export interface TabSyncEnhancerOptions extends Omit<TabStateSyncOptions, 'conflictResolution' | 'validate' | 'schema'> {
+  /**
+   * Prefix of the keys shared by the tabs syncing this store
+   * @default 'redux'
+   */
+  name?: string;
+
+  /**
+   * Actions dispatched again in the other tabs: a list of action types, or a predicate.
+   * They must be plain serializable objects and the reducers handling them deterministic.
+   */
+  actions?: string[] | ((action: UnknownAction) => boolean);
+
+  /**
+   * Top-level slices of the state copied to the other tabs after each change
+   */
+  slices?: string[];
+}
+
+interface ReplayedAction {
+  id: string;
+  action: UnknownAction;
+  at: number;
+}
+
+/**
+ * Number of replayed action IDs remembered to ignore an action delivered twice
+ */
+const SEEN_ACTIONS = 100;
+
+/**
+ * How long an action is sent again with the following ones, in milliseconds. The localStorage
+ * polling fallback only sees the last event of each 500 ms interval, so every event carries
+ * the actions of the last two intervals.
+ */
+const RECENT_ACTIONS_DURATION = 1000;
+
+/**
+ * Most actions sent in one event
+ */
+const RECENT_ACTIONS = 50;
+
+interface ActionEvents extends Record<string, unknown> {
+  actions: ReplayedAction[];
+}
+
+type State = Record<string, unknown>;
+
+function isPlainAction(action: unknown): action is UnknownAction {
+  return !!action && typeof action === 'object' && typeof (action as Action).type === 'string';
+}
+
+/**
+ * Redux store enhancer syncing the store with the other tabs, by replaying
+ * allow-listed actions, copying selected slices, or both.
+ * Actions and states received from other tabs are never sent back.
+ * @param options Configuration options, passed on to TabStateSync
+ */
+export function tabSyncEnhancer(options: TabSyncEnhancerOptions = {}): StoreEnhancer {
+  const { name = 'redux', actions, slices, persist, ...syncOptions } = options;
+  const shouldReplay = typeof actions === 'function' ? actions : (action: UnknownAction) => !!actions && actions.includes(action.type);
+
+  return (createStore) => (reducer, preloadedState) => {
+    const syncReducer = ((state: State | undefined, action: UnknownAction) => {
+      if (action.type === TAB_SYNC_HYDRATE) {
+        return { ...state, ...(action.payload as State) };
+      }
+      return (reducer as unknown as Reducer<State>)(state, action);
+    }) as unknown as typeof reducer;
+    const store = createStore(syncReducer, preloadedState);
+
+    // Set while an action from another tab is dispatched, so it is not sent back
+    let remote = false;
+    const dispatchRemote = (action: UnknownAction) => {
+      remote = true;
+      try {
+        store.dispatch(action as never);
+      } finally {
+        remote = false;
+      }
+    };
+
+    let actionBus: TabEventBus<ActionEvents> | null = null;
+    let recent: ReplayedAction[] = [];
+    const seen = new Set<string>();
+    const remember = (id: string) => {
+      seen.add(id);
+      if (seen.size > SEEN_ACTIONS) seen.delete(seen.values().next().value as string);
+    };
+    if (actions) {
+      // Actions are events, sent like TabEventBus events: never retained or persisted,
+      // so tabs opened later do not replay them. They travel unencrypted, even with enableEncryption.
+      actionBus = new TabEventBus<ActionEvents>(`${name}:actions`, {
+        namespace: syncOptions.namespace,
+        transport: syncOptions.transport,
+        debug: syncOptions.debug
+      });
+      actionBus.on('actions', (received) => {
+        // Actions already received with an earlier event are skipped
+        received.forEach(({ id, action }) => {
+          if (seen.has(id)) return;
+          remember(id);
+          dispatchRemote(action);
+        });
+      });
+    }
+
+    if (slices) {
+      const pick = (state: State) => slices.reduce((result, key) => {
+        result[key] = state[key];
+        return result;
+      }, {} as State);
+      const stateSync = new TabStateSync<State>(`${name}:state`, { ...syncOptions, persist });
+      let lastSlices = pick(store.getState() as State);
+
+      store.subscribe(() => {
+        const current = pick(store.getState() as State);
+        const changed = slices.some((key) => current[key] !== lastSlices[key]);
+        lastSlices = current;
+        if (changed && !remote) stateSync.set(current);
+      });
+      stateSync.subscribe((received) => {
+        if (deepEqual(received, pick(store.getState() as State))) return;
+        dispatchRemote({ type: TAB_SYNC_HYDRATE, payload: received });
+      });
+
+      // Hydrate synchronously, so the first render already shows the shared state
+      const stored = stateSync.get();
+      if (stored !== undefined) {
+        dispatchRemote({ type: TAB_SYNC_HYDRATE, payload: stored });
+      }
+    }
+
+    const dispatch = ((action: unknown) => {
+      const result = store.dispatch(action as never);
+      if (actionBus && !remote && isPlainAction(action) && shouldReplay(action)) {
+        const id = createId();
+        const now = Date.now();
+        remember(id);
+        recent = recent.filter(({ at }) => at > now - RECENT_ACTIONS_DURATION).slice(1 - RECENT_ACTIONS);
+        recent.push({ id, action, at: now });
+        actionBus.emit('actions', recent);
+      }
+      return result;
+    }) as typeof store.dispatch;
+
+    return { ...store, dispatch };
+  };
+}
@@ -0,0 +1,148 @@
+import { base64ToBytes, bytesToBase64 } from './crypto';
+
+/**
+ * Turns messages into strings and back. Every transport carries the serialized
+ * string, so all tabs decode the same types whichever transport delivered them.
+ */
+export interface Serializer {
+  serialize(value: unknown): string;
+  deserialize(text: string): unknown;
+}
+
+/**
+ * Plain JSON. Dates become strings, and Map, Set, BigInt and typed arrays are not supported.
+ */
+export const jsonSerializer: Serializer = {
+  serialize: (value) => JSON.stringify(value),
+  deserialize: (text) => JSON.parse(text)
+};
+
+/**
+ * Marks an encoded value in the JSON produced by richSerializer
+ */
+const TAG = '$t';
+
+type Tagged = { [TAG]: string; v?: unknown };
+
+const TYPED_ARRAYS: Record<string, new (buffer: ArrayBuffer) => ArrayBufferView> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  ...(typeof BigInt64Array !== 'undefined' ? { BigInt64Array, BigUint64Array } : {}),
+  DataView
+};
+
+function tag(type: string, v?: unknown): Tagged {
+  return v === undefined ? { [TAG]: type } : { [TAG]: type, v };
+}
+
+function isTagged(value: unknown): value is Tagged {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return typeof (value as Tagged)[TAG] === 'string' && keys.every((key) => key === TAG || key === 'v');
+}
+
+function viewBytes(view: ArrayBufferView): Uint8Array {
+  return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+}
+
+/**
+ * Copies the bytes into a new buffer, so typed arrays get a correctly aligned buffer of their own
+ */
+function bytesToBuffer(bytes: Uint8Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(bytes.length);
+  new Uint8Array(buffer).set(bytes);
+  return buffer;
+}
+
+function encode(this: unknown, key: string, value: unknown): unknown {
+  // JSON.stringify calls toJSON before the replacer, so read the original value from the holder
+  const raw = (this as Record<string, unknown>)[key];
+  if (raw === undefined) return tag('undefined');
+  if (typeof raw === 'bigint') return tag('BigInt', raw.toString());
+  if (typeof raw === 'number' && !Number.isFinite(raw)) return tag('Number', String(raw));
+  if (raw instanceof Date) return tag('Date', raw.getTime());
+  if (raw instanceof Map) return tag('Map', Array.from(raw.entries()));
+  if (raw instanceof Set) return tag('Set', Array.from(raw.values()));
+  if (raw instanceof ArrayBuffer) return tag('ArrayBuffer', bytesToBase64(new Uint8Array(raw)));
+  if (ArrayBuffer.isView(raw)) {
+    const type = Object.keys(TYPED_ARRAYS).find((name) => raw instanceof TYPED_ARRAYS[name]);
+    if (type) return tag(type, bytesToBase64(viewBytes(raw)));
+  }
+  if (typeof raw === 'object' && raw !== null && !Array.isArray(raw) && Object.prototype.hasOwnProperty.call(raw, TAG)) {
+    // A plain object that looks like an encoded value is stored as its entries
+    return tag('Object', Object.entries(raw));
+  }
+  return value;
+}
+
+/**
+ * Placeholder for undefined while parsing, since JSON.parse drops properties revived as undefined
+ */
+const UNDEFINED = Symbol('undefined');
+
+function decode(key: string, value: unknown): unknown {
+  if (!isTagged(value)) return value;
+  const v = value.v;
+  switch (value[TAG]) {
+    case 'undefined':
+      return UNDEFINED;
+    case 'BigInt':
+      return BigInt(v as string);
+    case 'Number':
+      return Number(v);
+    case 'Date':
+      return new Date(v as number);
+    case 'Map':
+      return new Map(v as [unknown, unknown][]);
+    case 'Set':
+      return new Set(v as unknown[]);
+    case 'ArrayBuffer':
+      return bytesToBuffer(base64ToBytes(v as string));
+    case 'Object':
+      return (v as [string, unknown][]).reduce<Record<string, unknown>>((obj, [k, item]) => {
+        obj[k] = item;
+        return obj;
+      }, {});
+    default: {
+      const View = TYPED_ARRAYS[value[TAG]];
+      if (!View) throw new Error(`Unknown serialized type: ${value[TAG]}`);
+      return new View(bytesToBuffer(base64ToBytes(v as string)));
+    }
+  }
+}
+
+/**
+ * JSON extended with Date, Map, Set, BigInt, undefined, NaN, Infinity, ArrayBuffer and typed arrays.
+ * Every tab must use it to decode these types.
+ */
+export const richSerializer: Serializer = {
+  serialize: (value) => JSON.stringify(value, encode),
+  deserialize: (text) => restoreUndefined(JSON.parse(text, decode))
+};
+
+function restoreUndefined(value: unknown): unknown {
+  if (value === UNDEFINED) return undefined;
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => { value[i] = restoreUndefined(item); });
+  } else if (value instanceof Map) {
+    const entries = Array.from(value.entries());
+    value.clear();
+    entries.forEach(([k, v]) => value.set(restoreUndefined(k), restoreUndefined(v)));
+  } else if (value instanceof Set) {
+    const items = Array.from(value.values());
+    value.clear();
+    items.forEach((item) => value.add(restoreUndefined(item)));
+  } else if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    Object.keys(value).forEach((key) => {
+      (value as Record<string, unknown>)[key] = restoreUndefined((value as Record<string, unknown>)[key]);
+    });
+  }
+  return value;
+}
@@ -0,0 +1,162 @@
+import { createDefaultTransport, Transport, TransportSendOptions } from './transports';
+
+/**
+ * Options for the SharedWorker transport
+ */
+export interface SharedWorkerTransportOptions {
+  /**
+   * URL of the worker script. Host SHARED_WORKER_SOURCE yourself if your
+   * Content Security Policy does not allow workers from data: URLs.
+   * @default a data: URL built from SHARED_WORKER_SOURCE
+   */
+  workerUrl?: string | URL;
+
+  /**
+   * Name of the SharedWorker. Tabs only share a worker when URL and name match.
+   * @default 'tabstatesync'
+   */
+  name?: string;
+}
+
+/**
+ * Messages between a tab and the worker
+ */
+type WorkerMessage =
+  | { type: 'subscribe'; key: string }
+  | { type: 'publish'; data: unknown; retain: boolean }
+  | { type: 'close' }
+  | { type: 'message'; data: unknown };
+
+/**
+ * Source of the SharedWorker. The worker holds the canonical retained message of
+ * every key, sends it to tabs when they subscribe and relays messages to the
+ * other tabs subscribed to the same key.
+ */
+export const SHARED_WORKER_SOURCE = `
+var values = {};
+var ports = {};
+self.onconnect = function (event) {
+  var port = event.ports[0];
+  var key = null;
+  port.onmessage = function (e) {
+    var msg = e.data;
+    if (msg.type === 'subscribe') {
+      key = msg.key;
+      (ports[key] = ports[key] || []).push(port);
+      if (Object.prototype.hasOwnProperty.call(values, key)) {
+        port.postMessage({ type: 'message', data: values[key] });
+      }
+    } else if (msg.type === 'publish' && key !== null) {
+      if (msg.retain) values[key] = msg.data;
+      ports[key].forEach(function (p) {
+        if (p !== port) p.postMessage({ type: 'message', data: msg.data });
+      });
+    } else if (msg.type === 'close' && key !== null) {
+      ports[key] = ports[key].filter(function (p) { return p !== port; });
+      port.close();
+    }
+  };
+};
+`;
+
+let defaultWorkerUrl: string | null = null;
+
+function getDefaultWorkerUrl(): string {
+  if (!defaultWorkerUrl) {
+    // A data: URL is identical in every tab, so all tabs connect to the same worker
+    defaultWorkerUrl = `data:text/javascript,${encodeURIComponent(SHARED_WORKER_SOURCE)}`;
+  }
+  return defaultWorkerUrl;
+}
+
+/**
+ * Transport through a SharedWorker that holds the single source of truth for each key.
+ * Tabs opened later receive the worker's value even when the tab that wrote it is closed.
+ * A worker failing to load, for example blocked by a Content Security Policy, is reported
+ * through `onError` along with the default transport to use instead.
+ */
+export class SharedWorkerTransport implements Transport {
+  readonly retains = true;
+  private port: MessagePort;
+  private handler: ((data: unknown) => void) | null = null;
+  private errorHandler: ((err: unknown, fallback?: Transport) => void) | null = null;
+  private failure: Event | null = null;
+
+  /**
+   * @param key Key to subscribe to in the worker
+   * @param options Worker URL and name
+   */
+  constructor(private key: string, options: SharedWorkerTransportOptions = {}) {
+    const worker = new SharedWorker(options.workerUrl ?? getDefaultWorkerUrl(), { name: options.name ?? 'tabstatesync' });
+    // Loading errors are only known once the script was fetched, after the constructor returned
+    worker.onerror = (event) => {
+      this.failure = event;
+      if (this.errorHandler) this.fail(this.errorHandler);
+    };
+    this.port = worker.port;
+    this.port.onmessage = (event) => this.onPortMessage(event.data);
+    this.post({ type: 'subscribe', key });
+  }
+
+  send(data: unknown, options: TransportSendOptions = {}): void {
+    this.post({ type: 'publish', data, retain: options.retain ?? false });
+  }
+
+  onMessage(handler: (data: unknown) => void): void {
+    this.handler = handler;
+  }
+
+  onError(handler: (err: unknown, fallback?: Transport) => void): void {
+    this.errorHandler = handler;
+    if (this.failure) this.fail(handler);
+  }
+
+  close(): void {
+    this.post({ type: 'close' });
+    this.port.close();
+    this.handler = null;
+    this.errorHandler = null;
+  }
+
+  /**
+   * Reports the failure with the transport createSharedWorkerTransport falls back to
+   */
+  private fail(handler: (err: unknown, fallback?: Transport) => void): void {
+    let fallback: Transport | undefined;
+    try {
+      fallback = createDefaultTransport(this.key, this.key);
+    } catch {
+      // Neither BroadcastChannel nor localStorage, TabStateSync keeps working in memory
+    }
+    handler(this.failure, fallback);
+  }
+
+  private post(message: WorkerMessage): void {
+    this.port.postMessage(message);
+  }
+
+  private onPortMessage(message: WorkerMessage): void {
+    if (message.type === 'message') {
+      this.handler?.(message.data);
+    }
+  }
+}
+
+/**
+ * Creates a SharedWorker transport, falling back to the default transport
+ * when SharedWorker is unavailable or the worker cannot be started, including
+ * when the worker script fails to load later.
+ * Use it as a transport factory: `{ transport: (key) => createSharedWorkerTransport(key) }`
+ * @param key Namespaced key
+ * @param options Worker URL and name
+ */
+export function createSharedWorkerTransport(key: string, options: SharedWorkerTransportOptions = {}): Transport {
+  if (typeof SharedWorker !== 'undefined') {
+    try {
+      return new SharedWorkerTransport(key, options);
+    } catch {
+      // For example blocked by a Content Security Policy
+    }
+  }
+  return createDefaultTransport(key, key);
+}
@@ -0,0 +1,42 @@
+import { createSignal, getOwner, onCleanup } from 'solid-js';
+import type { Accessor } from 'solid-js';
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+
+type SetStateAction<T> = T | ((current: T) => T);
+
+/**
+ * Creates a Solid signal synced across browser tabs.
+ * The TabStateSync instance is destroyed with the owner creating the signal, such as a component.
+ * On the server the signal keeps `initialValue` and nothing is synced.
+ * @param key Unique key/channel for the sync.
+ * @param initialValue Value used while no tab has written one.
+ * @param options Configuration options for TabStateSync.
+ * @returns [getter, setter] tuple, like createSignal, but synced across tabs.
+ */
+export function createTabSignal<T>(
+  key: string,
+  initialValue: T,
+  options?: TabStateSyncOptions<T>
+): [Accessor<T>, (value: SetStateAction<T>) => T] {
+  const [value, setValue] = createSignal<T>(initialValue);
+  const sync = typeof window === 'undefined' ? null : new TabStateSync<T>(key, options);
+
+  if (sync) {
+    const stored = sync.get();
+    if (stored !== undefined) setValue(() => stored);
+    // Values from other tabs only update the signal, so they are never sent back
+    sync.subscribe((next) => setValue(() => next));
+    if (getOwner()) {
+      onCleanup(() => sync.destroy());
+    }
+  }
+
+  const set = (action: SetStateAction<T>): T => {
+    const next = typeof action === 'function' ? (action as (current: T) => T)(value()) : action;
+    setValue(() => next);
+    sync?.set(next);
+    return next;
+  };
+
+  return [value, set];
+}
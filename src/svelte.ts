@@ -0,0 +1,63 @@
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+
+/**
+ * Svelte writable store synced across browser tabs
+ */
+export interface TabStateStore<T> {
+  subscribe(run: (value: T) => void): () => void;
+  set(value: T): void;
+  update(updater: (current: T) => T): void;
+}
+
+/**
+ * Creates a Svelte store synced across browser tabs. It follows the store contract,
+ * so `$store` works in components without depending on Svelte.
+ * The TabStateSync instance is created with the first subscriber and destroyed
+ * when the last one unsubscribes, for example when the last component using it is destroyed.
+ * @param key Unique key/channel for the sync.
+ * @param initialValue Value used while no tab has written one, and on the server.
+ * @param options Configuration options for TabStateSync.
+ */
+export function tabStateStore<T>(key: string, initialValue: T, options?: TabStateSyncOptions<T>): TabStateStore<T> {
+  const subscribers = new Set<(value: T) => void>();
+  let value = initialValue;
+  let sync: TabStateSync<T> | null = null;
+
+  const emit = (next: T) => {
+    value = next;
+    subscribers.forEach((run) => run(next));
+  };
+
+  const start = () => {
+    if (sync || typeof window === 'undefined') return;
+    sync = new TabStateSync<T>(key, options);
+    const stored = sync.get();
+    if (stored !== undefined) value = stored;
+    sync.subscribe((next) => {
+      if (next !== value) emit(next);
+    });
+  };
+
+  const set = (next: T) => {
+    start();
+    emit(next);
+    sync?.set(next);
+  };
+
+  return {
+    subscribe(run) {
+      start();
+      subscribers.add(run);
+      run(value);
+      return () => {
+        subscribers.delete(run);
+        if (subscribers.size === 0 && sync) {
+          sync.destroy();
+          sync = null;
+        }
+      };
+    },
+    set,
+    update: (updater) => set(updater(value))
+  };
+}
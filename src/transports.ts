@@ -0,0 +1,329 @@
+import { createIndexedDbStore, IndexedDbStore } from './indexedDb';
+
+/**
+ * Options for Transport.send
+ */
+export interface TransportSendOptions {
+  /**
+   * The message carries the latest state. Transports that store data (such as localStorage)
+   * keep it so tabs opened later can read it; other messages are delivered and then discarded.
+   * @default false
+   */
+  retain?: boolean;
+}
+
+/**
+ * Moves messages between the TabStateSync instances of different tabs.
+ * TabStateSync sends strings produced by its serializer (and encrypted, if enabled),
+ * or message objects to transports marked `structured`.
+ * Objects sent by older versions are still accepted when received.
+ */
+export interface Transport {
+  /**
+   * Delivers a message to every other instance listening on this transport.
+   * Transports storing data asynchronously return a Promise rejected if the write fails.
+   */
+  send(data: unknown, options?: TransportSendOptions): void | Promise<void>;
+
+  /**
+   * Registers the handler for messages sent by other instances
+   */
+  onMessage(handler: (data: unknown) => void): void;
+
+  /**
+   * Returns the last retained message, for transports that store one, or a Promise of it
+   * for asynchronous stores. Transports without it are hydrated by asking the other tabs instead.
+   */
+  read?(): unknown | Promise<unknown>;
+
+  /**
+   * The transport keeps retained messages for tabs opened later but has no `read()`,
+   * like a SharedWorker. It then receives full values instead of patches.
+   */
+  readonly retains?: boolean;
+
+  /**
+   * The transport takes any structured-clonable message. Without encryption, TabStateSync
+   * then sends message objects as they are, without serializer or compression.
+   */
+  readonly structured?: boolean;
+
+  /**
+   * Registers the handler for failures detected after the transport was created,
+   * for example a worker script that could not be loaded. The transport may pass
+   * another transport to use instead; TabStateSync falls back to in-memory mode otherwise.
+   */
+  onError?(handler: (err: unknown, fallback?: Transport) => void): void;
+
+  /**
+   * Stops listening and releases resources
+   */
+  close(): void;
+}
+
+/**
+ * Creates the transport for a key. Receives the namespaced key.
+ */
+export type TransportFactory = (key: string) => Transport;
+
+/**
+ * Basic Safari detection (desktop and iOS)
+ */
+export function isSafari(): boolean {
+  return (
+    typeof navigator !== 'undefined' &&
+    /safari/i.test(navigator.userAgent) &&
+    !/chrome|android/i.test(navigator.userAgent)
+  );
+}
+
+/**
+ * localStorage key used for messages that must not overwrite the stored state
+ */
+function getMessageKey(key: string): string {
+  return `${key}#message`;
+}
+
+function toStorageString(data: unknown): string {
+  return typeof data === 'string' ? data : JSON.stringify(data);
+}
+
+/**
+ * Transport over the BroadcastChannel API
+ */
+export class BroadcastChannelTransport implements Transport {
+  private channel: BroadcastChannel;
+
+  /**
+   * @param name Channel name
+   */
+  constructor(name: string) {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  send(data: unknown): void {
+    this.channel.postMessage(data);
+  }
+
+  onMessage(handler: (data: unknown) => void): void {
+    this.channel.onmessage = (event) => handler(event.data);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * Transport over localStorage, notified through the `storage` event
+ */
+export class StorageEventTransport implements Transport {
+  private handler: ((data: unknown) => void) | null = null;
+
+  /**
+   * @param key localStorage key holding the retained message
+   */
+  constructor(private key: string) {
+    // Throws if storage is disabled, for example in sandboxed iframes or by privacy settings
+    localStorage.getItem(key);
+    window.addEventListener('storage', this.onStorage);
+  }
+
+  send(data: unknown, options: TransportSendOptions = {}): void {
+    const raw = toStorageString(data);
+    if (options.retain) {
+      localStorage.setItem(this.key, raw);
+    } else {
+      // Writing then removing still fires the storage event in other tabs
+      const messageKey = getMessageKey(this.key);
+      localStorage.setItem(messageKey, raw);
+      localStorage.removeItem(messageKey);
+    }
+  }
+
+  onMessage(handler: (data: unknown) => void): void {
+    this.handler = handler;
+  }
+
+  read(): unknown {
+    return localStorage.getItem(this.key);
+  }
+
+  close(): void {
+    window.removeEventListener('storage', this.onStorage);
+    this.handler = null;
+  }
+
+  private onStorage = (e: StorageEvent) => {
+    if ((e.key !== this.key && e.key !== getMessageKey(this.key)) || !e.newValue) return;
+    this.handler?.(e.newValue);
+  };
+}
+
+/**
+ * Transport over localStorage that polls for changes.
+ * Used on Safari, where the storage event is not reliably fired between tabs.
+ * Only the last non-retained message of each polling interval is seen by other tabs.
+ */
+export class PollingStorageTransport implements Transport {
+  private handler: ((data: unknown) => void) | null = null;
+  private intervalId: number;
+  private lastValues: Record<string, string | null> = {};
+
+  /**
+   * @param key localStorage key holding the retained message
+   * @param interval Polling interval in milliseconds
+   */
+  constructor(private key: string, private interval = 500) {
+    const keys = [key, getMessageKey(key)];
+    // Initialize with current values, so only later changes are reported
+    keys.forEach((k) => { this.lastValues[k] = localStorage.getItem(k); });
+    this.intervalId = window.setInterval(() => {
+      keys.forEach((k) => {
+        const raw = localStorage.getItem(k);
+        if (raw && raw !== this.lastValues[k]) {
+          this.lastValues[k] = raw;
+          this.handler?.(raw);
+        }
+      });
+    }, interval);
+  }
+
+  send(data: unknown, options: TransportSendOptions = {}): void {
+    const raw = toStorageString(data);
+    const target = options.retain ? this.key : getMessageKey(this.key);
+    localStorage.setItem(target, raw);
+    // Update immediately so the own write is not reported
+    this.lastValues[target] = raw;
+
+    if (!options.retain) {
+      // Leave the message long enough for every tab to poll it once
+      setTimeout(() => {
+        if (localStorage.getItem(target) === raw) {
+          localStorage.removeItem(target);
+        }
+      }, this.interval * 2);
+    }
+  }
+
+  onMessage(handler: (data: unknown) => void): void {
+    this.handler = handler;
+  }
+
+  read(): unknown {
+    return localStorage.getItem(this.key);
+  }
+
+  close(): void {
+    clearInterval(this.intervalId);
+    this.handler = null;
+  }
+}
+
+/**
+ * Transport storing the retained message in IndexedDB, with change notification over BroadcastChannel.
+ * Suited to large or binary state: there is no localStorage quota and messages may be
+ * any structured-clonable value, stored as is.
+ */
+export class IndexedDbTransport implements Transport {
+  readonly structured = true;
+  private channel: BroadcastChannel;
+  private store: IndexedDbStore;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param key Key of the retained message, also used as channel name
+   * @param dbName Name of the IndexedDB database
+   */
+  constructor(private key: string, dbName?: string) {
+    this.store = createIndexedDbStore(dbName);
+    this.channel = new BroadcastChannel(key);
+  }
+
+  send(data: unknown, options: TransportSendOptions = {}): void | Promise<void> {
+    this.channel.postMessage(data);
+    if (!options.retain) return;
+    // Writes are chained, so a read never sees an older value than the last write
+    const write = this.writes.then(() => this.store.set(this.key, data));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  onMessage(handler: (data: unknown) => void): void {
+    this.channel.onmessage = (event) => handler(event.data);
+  }
+
+  read(): Promise<unknown> {
+    return this.writes.then(() => this.store.get(this.key)).then((data) => data ?? null);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * In-memory transport connecting instances of the same page, for unit tests or
+ * environments without BroadcastChannel and localStorage.
+ * Like BroadcastChannel, messages are delivered asynchronously and never to the sender.
+ */
+export class MemoryTransport implements Transport {
+  private static hubs: Map<string, Set<MemoryTransport>> = new Map();
+  private handler: ((data: unknown) => void) | null = null;
+
+  /**
+   * @param name Instances with the same name exchange messages
+   */
+  constructor(private name: string) {
+    let hub = MemoryTransport.hubs.get(name);
+    if (!hub) {
+      hub = new Set();
+      MemoryTransport.hubs.set(name, hub);
+    }
+    hub.add(this);
+  }
+
+  send(data: unknown): void {
+    const peers = Array.from(MemoryTransport.hubs.get(this.name) ?? []);
+    queueMicrotask(() => {
+      peers.forEach((peer) => {
+        if (peer !== this) peer.handler?.(data);
+      });
+    });
+  }
+
+  onMessage(handler: (data: unknown) => void): void {
+    this.handler = handler;
+  }
+
+  close(): void {
+    const hub = MemoryTransport.hubs.get(this.name);
+    hub?.delete(this);
+    if (hub?.size === 0) {
+      MemoryTransport.hubs.delete(this.name);
+    }
+    this.handler = null;
+  }
+}
+
+/**
+ * Picks the best available transport: BroadcastChannel, then localStorage
+ * with polling on Safari or the storage event everywhere else.
+ * Throws if neither BroadcastChannel nor localStorage can be used.
+ * @param key Key without namespace, used as BroadcastChannel name
+ * @param storageKey Namespaced localStorage key
+ */
+export function createDefaultTransport(key: string, storageKey: string): Transport {
+  if (typeof window !== 'undefined' && 'BroadcastChannel' in window) {
+    try {
+      // BroadcastChannel doesn't need namespace prefix
+      return new BroadcastChannelTransport(key);
+    } catch {
+      // Blocked, for example in sandboxed iframes: try localStorage
+    }
+  }
+  if (isSafari()) {
+    return new PollingStorageTransport(storageKey);
+  }
+  return new StorageEventTransport(storageKey);
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+import { PeerInfo } from './presence';
+
+/**
+ * React hook listing the other tabs listening on a key.
+ * @param key Unique key/channel for the sync.
+ * @param options Configuration options for TabStateSync. Presence is always enabled.
+ * @returns This tab's ID, the other tabs and a function sharing a payload with them.
+ */
+export function useTabPresence<P = unknown>(
+  key: string,
+  options?: TabStateSyncOptions
+): { tabId: string | null; peers: PeerInfo<P>[]; setData: (data: P) => void } {
+  const [tabId, setTabId] = useState<string | null>(null);
+  const [peers, setPeers] = useState<PeerInfo<P>[]>([]);
+  const syncRef = useRef<TabStateSync | null>(null);
+  const optionsRef = useRef<TabStateSyncOptions | undefined>(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  useEffect(() => {
+    const sync = new TabStateSync(key, { ...optionsRef.current, presence: optionsRef.current?.presence || true });
+    syncRef.current = sync;
+    setTabId(sync.getTabId());
+    setPeers(sync.getPeers() as PeerInfo<P>[]);
+    const unsubscribe = sync.onPeersChange((current) => setPeers(current as PeerInfo<P>[]));
+    return () => {
+      unsubscribe();
+      sync.destroy();
+      syncRef.current = null;
+    };
+  }, [key]);
+
+  const setData = useCallback((data: P) => {
+    syncRef.current?.setPresenceData(data);
+  }, []);
+
+  return { tabId, peers, setData };
+}
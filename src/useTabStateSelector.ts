@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+
+/**
+ * React hook reading part of a value synced across browser tabs.
+ * The component re-renders only when the selected part changes.
+ * @param key Unique key/channel for the sync.
+ * @param selector Function picking part of the value. Also called with undefined while no value is known.
+ * @param options Configuration options for TabStateSync.
+ * @param equalityFn Function comparing selections, `Object.is` by default.
+ * @returns The selected part of the value.
+ */
+export function useTabStateSelector<T = any, S = unknown>(
+  key: string,
+  selector: (value: T | undefined) => S,
+  options?: TabStateSyncOptions<T>,
+  equalityFn: (a: S, b: S) => boolean = Object.is
+): S {
+  const syncRef = useRef<TabStateSync<T> | null>(null);
+  const optionsRef = useRef<TabStateSyncOptions<T> | undefined>(options);
+  // Last selection, returned again while equal so React sees a stable snapshot
+  const selectionRef = useRef<{ value: T | undefined; selector: (value: T | undefined) => S; selected: S } | null>(null);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  // The instance lives as long as the subscription, so it is only created in the browser
+  const subscribe = useCallback((onChange: () => void) => {
+    const sync = new TabStateSync<T>(key, optionsRef.current);
+    syncRef.current = sync;
+    const unsubscribe = sync.subscribe(onChange);
+    return () => {
+      unsubscribe();
+      sync.destroy();
+      if (syncRef.current === sync) syncRef.current = null;
+    };
+  }, [key]);
+
+  const getSnapshot = () => {
+    const value = syncRef.current?.get();
+    const last = selectionRef.current;
+    if (last && last.value === value && last.selector === selector) {
+      return last.selected;
+    }
+    const selected = selector(value);
+    if (last && equalityFn(last.selected, selected)) {
+      selectionRef.current = { value, selector, selected: last.selected };
+      return last.selected;
+    }
+    selectionRef.current = { value, selector, selected };
+    return selected;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
@@ -1,44 +1,125 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
 import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
 
+/**
+ * New value, or a function computing it from the current one, like the setter of useState
+ */
+export type SetStateAction<T> = T | ((current: T) => T);
+
+function shallowEqual(a: object | undefined, b: object | undefined): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  const keysA = Object.keys(a) as Array<keyof typeof a>;
+  return keysA.length === Object.keys(b).length && keysA.every((k) => Object.is(a[k], b[k]));
+}
+
+/**
+ * Options holding a primitive value. Functions and objects passed inline are new on every render,
+ * so only these recreate the instance.
+ */
+function primitiveOptions<T>(options: TabStateSyncOptions<T> | undefined): Record<string, unknown> {
+  const primitives: Record<string, unknown> = {};
+  if (options) {
+    (Object.keys(options) as Array<keyof TabStateSyncOptions<T>>).forEach((name) => {
+      const value = options[name];
+      if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+        primitives[name] = value;
+      }
+    });
+  }
+  return primitives;
+}
+
+/**
+ * Options of a new instance, with callbacks calling those of the latest render
+ */
+function withLatestCallbacks<T>(
+  options: TabStateSyncOptions<T> | undefined,
+  latest: { current: TabStateSyncOptions<T> | undefined }
+): TabStateSyncOptions<T> | undefined {
+  if (!options) return options;
+  const { onError, onVersionMismatch, validate } = options;
+  return {
+    ...options,
+    onError: onError && ((error) => latest.current?.onError?.(error)),
+    onVersionMismatch: onVersionMismatch && ((remote, local) => latest.current?.onVersionMismatch?.(remote, local)),
+    validate: validate && ((value: unknown): value is T => (latest.current?.validate ?? validate)(value))
+  };
+}
+
 /**
  * React hook for synchronizing state across browser tabs using TabStateSync.
+ * Renders `initialValue` on the server and during hydration, then the value shared by the other tabs.
+ * The instance is recreated when `key` or a primitive option changes. Other options are
+ * read when it is created, and `onError`, `onVersionMismatch` and `validate` from the latest render.
  * @param key Unique key/channel for the sync.
  * @param initialValue Initial value for the state.
  * @param options Configuration options for TabStateSync.
  * @returns [state, setState] tuple, like useState, but synced across tabs.
  */
 export function useTabStateSync<T = any>(
-  key: string, 
+  key: string,
   initialValue: T,
-  options?: TabStateSyncOptions
-): [T, (v: T) => void] {
-  const [state, setState] = useState<T>(initialValue);
+  options?: TabStateSyncOptions<T>
+): [T, (value: SetStateAction<T>) => void] {
   const syncRef = useRef<TabStateSync<T> | null>(null);
-  const optionsRef = useRef<TabStateSyncOptions | undefined>(options);
-  
-  // Update options ref when options change
-  useEffect(() => {
-    optionsRef.current = options;
-  }, [options]);
+  const initialRef = useRef(initialValue);
+  const unmountedRef = useRef(false);
 
   useEffect(() => {
-    syncRef.current = new TabStateSync<T>(key, optionsRef.current);
-    const handleChange = (value: T) => setState(value);
-    syncRef.current.subscribe(handleChange);
+    unmountedRef.current = false;
     return () => {
-      if (syncRef.current) {
-        syncRef.current.unsubscribe(handleChange);
-        syncRef.current.destroy();
-      }
+      unmountedRef.current = true;
     };
-  }, [key]); // Remove options from dependencies
-
-  // Memoize the set function to prevent unnecessary re-renders
-  const set = useCallback((value: T) => {
-    setState(value);
-    syncRef.current?.set(value);
   }, []);
 
+  // Options are usually passed inline, so only a change of a primitive option recreates the instance
+  const latestRef = useRef(options);
+  latestRef.current = options;
+  const primitivesRef = useRef(primitiveOptions(options));
+  const primitives = primitiveOptions(options);
+  if (!shallowEqual(primitivesRef.current, primitives)) {
+    primitivesRef.current = primitives;
+  }
+  const stablePrimitives = primitivesRef.current;
+
+  // Created on first use, so writes made before the component subscribed are not lost
+  const getSync = useCallback((): TabStateSync<T> | null => {
+    // Nothing to sync on the server, and a write after unmount must not create a new instance
+    if (typeof window === 'undefined' || unmountedRef.current) return null;
+    if (!syncRef.current) {
+      syncRef.current = new TabStateSync<T>(key, withLatestCallbacks(latestRef.current, latestRef));
+    }
+    return syncRef.current;
+  }, [key, stablePrimitives]);
+
+  const subscribe = useCallback((onChange: () => void) => {
+    const sync = getSync();
+    if (!sync) return () => {};
+    const unsubscribe = sync.subscribe(onChange);
+    return () => {
+      unsubscribe();
+      sync.destroy();
+      if (syncRef.current === sync) syncRef.current = null;
+    };
+  }, [getSync]);
+
+  const read = (sync: TabStateSync<T> | null) => {
+    const value = sync?.get();
+    return value === undefined ? initialRef.current : value;
+  };
+  const getSnapshot = () => read(syncRef.current);
+  const getServerSnapshot = () => initialRef.current;
+  const state = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const set = useCallback((value: SetStateAction<T>) => {
+    const sync = getSync();
+    if (!sync) return;
+    const next = typeof value === 'function'
+      ? (value as (current: T) => T)(read(sync))
+      : value;
+    sync.set(next);
+  }, [getSync]);
+
   return [state, set];
-} 
\ No newline at end of file
+}
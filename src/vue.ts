@@ -0,0 +1,44 @@
+import { getCurrentScope, onScopeDispose, ref, toRaw, watch } from 'vue';
+import type { Ref } from 'vue';
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+
+/**
+ * Vue 3 composable returning a ref synced across browser tabs.
+ * Assigning the ref, or changing a nested property, sends the value to the other tabs.
+ * The TabStateSync instance is destroyed with the component or effect scope calling it.
+ * On the server the ref keeps `initialValue` and nothing is synced.
+ * @param key Unique key/channel for the sync.
+ * @param initialValue Value used while no tab has written one.
+ * @param options Configuration options for TabStateSync.
+ */
+export function useTabState<T>(key: string, initialValue: T, options?: TabStateSyncOptions<T>): Ref<T> {
+  const state = ref(initialValue) as Ref<T>;
+  if (typeof window === 'undefined') return state;
+
+  const sync = new TabStateSync<T>(key, options);
+  // Set while a value from another tab is assigned, so it is not sent back
+  let remote = false;
+  const assign = (value: T) => {
+    remote = true;
+    try {
+      state.value = value;
+    } finally {
+      remote = false;
+    }
+  };
+
+  const stored = sync.get();
+  if (stored !== undefined) assign(stored);
+  sync.subscribe((value) => {
+    if (value !== toRaw(state.value)) assign(value);
+  });
+  // Synchronous, so the remote flag is still set when a received value triggers it
+  watch(state, (value) => {
+    if (!remote) sync.set(toRaw(value));
+  }, { deep: true, flush: 'sync' });
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => sync.destroy());
+  }
+  return state;
+}
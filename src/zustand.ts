@@ -0,0 +1,74 @@
+import type { StateCreator, StoreApi, StoreMutatorIdentifier } from 'zustand/vanilla';
+import { deepEqual } from './jsonPatch';
+import { TabStateSync, TabStateSyncOptions } from './TabStateSync';
+
+/**
+ * Configuration options for the Zustand tabSync middleware
+ */
+export interface TabSyncOptions<S, P = Partial<S>> extends TabStateSyncOptions<P> {
+  /**
+   * Key shared by the tabs syncing this store
+   */
+  name: string;
+
+  /**
+   * Picks the part of the state to sync. Every property except functions by default.
+   */
+  partialize?: (state: S) => P;
+}
+
+function withoutFunctions<S>(state: S): Partial<S> {
+  return Object.keys(state as object).reduce((result, key) => {
+    const value = (state as Record<string, unknown>)[key];
+    if (typeof value !== 'function') result[key] = value;
+    return result;
+  }, {} as Record<string, unknown>) as Partial<S>;
+}
+
+/**
+ * Zustand middleware syncing the store with the other tabs.
+ * The store starts from the state already shared by the other tabs, and states
+ * received from them are merged without being sent back.
+ * @param initializer The store initializer
+ * @param options Configuration options, passed on to TabStateSync
+ */
+export function tabSync<
+  S,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+  P = Partial<S>
+>(initializer: StateCreator<S, Mps, Mcs>, options: TabSyncOptions<S, P>): StateCreator<S, Mps, Mcs> {
+  const { name, partialize = withoutFunctions as unknown as (state: S) => P, ...syncOptions } = options;
+
+  return (set, get, api) => {
+    const store = api as unknown as StoreApi<S>;
+    const sync = new TabStateSync<P>(name, syncOptions);
+    // Set while a remote state is applied, so it is not sent back
+    let applyingRemote = false;
+
+    const applyRemote = (remote: P) => {
+      // Also called for this tab's own writes, which are already in the store
+      if (deepEqual(remote, partialize(store.getState()))) return;
+      applyingRemote = true;
+      try {
+        store.setState(remote as unknown as Partial<S>);
+      } finally {
+        applyingRemote = false;
+      }
+    };
+
+    const state = initializer(set, get, api);
+    sync.subscribe(applyRemote);
+    store.subscribe((next, previous) => {
+      if (applyingRemote) return;
+      const slice = partialize(next);
+      if (!deepEqual(slice, partialize(previous))) {
+        sync.set(slice);
+      }
+    });
+
+    // Hydrate synchronously, so the first render already shows the shared state
+    const stored = sync.get();
+    return stored === undefined ? state : { ...state, ...stored };
+  };
+}